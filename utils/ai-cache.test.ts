@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+// Utils
+import { hashPrompt, withAICache } from "utils/ai-cache";
+// Types
+import type { AIClient } from "utils/ai-providers";
+
+const CLIENT = { provider: "openai", model: "local-model" } as const;
+
+test("temperature and base URL are part of the cache key", () => {
+  const plain = hashPrompt(CLIENT, "prompt", { json: true });
+
+  assert.equal(hashPrompt(CLIENT, "prompt", { json: true }, {}), plain);
+  assert.notEqual(hashPrompt(CLIENT, "prompt", { json: true }, { temperature: 0 }), plain);
+  assert.notEqual(
+    hashPrompt(CLIENT, "prompt", { json: true }, { baseUrl: "http://localhost:11434/v1" }),
+    hashPrompt(CLIENT, "prompt", { json: true }, { baseUrl: "http://localhost:8080/v1" })
+  );
+});
+
+test("a cached answer is not served after the temperature changes", async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "ai-cache-test-"));
+  process.env.AI_CACHE_DIR = dir;
+  t.after(() => {
+    delete process.env.AI_CACHE_DIR;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  let calls = 0;
+  const client: AIClient = {
+    ...CLIENT,
+    generate: async () => ({ text: `answer ${++calls}` }),
+  };
+
+  const cold = withAICache(client, "on", { temperature: 0 });
+  assert.equal((await cold.generate("prompt")).text, "answer 1");
+  assert.equal((await cold.generate("prompt")).text, "answer 1");
+
+  const warm = withAICache(client, "on", { temperature: 0.7 });
+  assert.equal((await warm.generate("prompt")).text, "answer 2");
+});
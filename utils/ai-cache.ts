@@ -0,0 +1,124 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+// Utils
+import { logger } from "utils/logger";
+// Types
+import type { AIClient, AIConfig, AIGenerateOptions } from "utils/ai-providers";
+
+// Caches model responses on disk, keyed by a hash of the provider, model,
+// temperature, base URL, prompt and output schema. AI_CACHE selects the mode:
+//   on      serve cached responses, call the model on a miss and store it
+//   record  always call the model and store (or refresh) the response
+//   replay  only serve cached responses; a miss is an error, nothing is sent
+//   off     no caching (default)
+// Point AI_CACHE_DIR at a committed folder to keep recordings as fixtures.
+
+export const AI_CACHE_MODES = ["off", "on", "record", "replay"] as const;
+
+export type AICacheMode = (typeof AI_CACHE_MODES)[number];
+
+// Resolved settings that change responses without being part of the prompt
+export type AIGenerationConfig = Pick<AIConfig, "temperature" | "baseUrl">;
+
+export interface AICacheEntry {
+  provider: string;
+  model: string;
+  generation?: AIGenerationConfig;
+  promptHash: string;
+  prompt: string;
+  options: AIGenerateOptions;
+  response: string;
+  recordedAt: string;
+}
+
+export const getAICacheDir = (): string => process.env.AI_CACHE_DIR ?? ".ai-cache";
+
+export const getAICacheMode = (): AICacheMode => {
+  const mode = (process.env.AI_CACHE ?? "off").toLowerCase();
+  if (!(AI_CACHE_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown AI_CACHE mode "${mode}". Use one of: ${AI_CACHE_MODES.join(", ")}`);
+  }
+  return mode as AICacheMode;
+};
+
+// Only options that change the response are part of the key
+const cacheKeyOptions = ({ itemType, ...options }: AIGenerateOptions): AIGenerateOptions => options;
+
+// Unset generation settings leave the key as it was before they were added
+export const hashPrompt = (
+  client: Pick<AIClient, "provider" | "model">,
+  prompt: string,
+  options: AIGenerateOptions,
+  generation: AIGenerationConfig = {}
+): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify({
+        provider: client.provider,
+        model: client.model,
+        temperature: generation.temperature,
+        baseUrl: generation.baseUrl,
+        prompt,
+        options: cacheKeyOptions(options),
+      })
+    )
+    .digest("hex");
+
+const entryPath = (hash: string, dir: string): string => join(dir, `${hash}.json`);
+
+export const readCacheEntry = (hash: string, dir = getAICacheDir()): AICacheEntry | undefined => {
+  const path = entryPath(hash, dir);
+  return existsSync(path) ? (JSON.parse(readFileSync(path, "utf-8")) as AICacheEntry) : undefined;
+};
+
+const writeCacheEntry = (entry: AICacheEntry, dir = getAICacheDir()): void => {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(entryPath(entry.promptHash, dir), `${JSON.stringify(entry, null, 2)}\n`);
+};
+
+export const withAICache = (
+  client: AIClient,
+  mode: AICacheMode = getAICacheMode(),
+  generation: AIGenerationConfig = {}
+): AIClient => {
+  if (mode === "off") return client;
+
+  const stats = { hits: 0, misses: 0 };
+
+  return {
+    ...client,
+    generate: async (prompt, options = {}) => {
+      const promptHash = hashPrompt(client, prompt, options, generation);
+
+      if (mode !== "record") {
+        const cached = readCacheEntry(promptHash);
+        if (cached) {
+          stats.hits++;
+          logger.info("Using cached AI response", { promptHash: promptHash.slice(0, 12), ...stats });
+          return { text: cached.response };
+        }
+        if (mode === "replay") {
+          throw new Error(
+            `No cached AI response for prompt ${promptHash.slice(0, 12)} (${client.provider}/${client.model}) in ${getAICacheDir()}. Record it first with AI_CACHE=record`
+          );
+        }
+      }
+
+      stats.misses++;
+      const response = await client.generate(prompt, options);
+      writeCacheEntry({
+        provider: client.provider,
+        model: client.model,
+        generation,
+        promptHash,
+        prompt,
+        options: cacheKeyOptions(options),
+        response: response.text,
+        recordedAt: new Date().toISOString(),
+      });
+      logger.info("Cached AI response", { promptHash: promptHash.slice(0, 12), ...stats });
+      return response;
+    },
+  };
+};
@@ -0,0 +1,106 @@
+import { readFileSync } from "node:fs";
+// Types
+import type { AIClient, AIGenerateOptions, AIResponse } from "utils/ai-providers";
+import type { AIUsage } from "utils/ai-usage";
+
+// Scripted stand-in for a model. Each prompt is checked against the rules in
+// order and the first one that matches supplies the response, so workflows
+// can be run end to end (AI_PROVIDER=fake, AI_FAKE_RULES=rules.json) without
+// a provider. A rule file looks like:
+//
+//   { "rules": [
+//     { "match": "Meal 3", "times": 1, "response": "{\"meals\": [" },
+//     { "pattern": "\\[p1\\] Meal 1", "fenced": true,
+//       "response": { "meals": [{ "key": "p1", "ingredients": "Eggs" }] } },
+//     { "response": "" }
+//   ] }
+//
+// which answers the first prompt mentioning Meal 3 with truncated JSON, wraps
+// the Meal 1 answer in a code fence and returns an empty response otherwise.
+
+export interface FakeAIRule {
+  // Substring the prompt has to contain
+  match?: string;
+  // Regular expression the prompt has to match
+  pattern?: string;
+  // Strings are returned verbatim; anything else is serialised as JSON
+  response?: unknown;
+  // Wrap the response in a ```json fence, as models sometimes do
+  fenced?: boolean;
+  // Fail the call with this message instead, like a provider error
+  error?: string;
+  // Stop matching after this many calls, so later rules can take over
+  times?: number;
+  // Reported token usage; estimated from the text length when omitted
+  usage?: AIUsage;
+}
+
+export interface FakeAIScript {
+  rules: FakeAIRule[];
+}
+
+export interface FakeAICall {
+  prompt: string;
+  options: AIGenerateOptions;
+  // Index of the rule that answered
+  rule: number;
+}
+
+export interface FakeAIClient extends AIClient {
+  // Every call made so far, for assertions
+  calls: FakeAICall[];
+}
+
+export const FAKE_AI_MODEL = "fake";
+
+// Roughly four characters per token, which is close enough for budgets
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const matchesRule = (rule: FakeAIRule, prompt: string): boolean =>
+  (rule.match === undefined || prompt.includes(rule.match)) &&
+  (rule.pattern === undefined || new RegExp(rule.pattern, "m").test(prompt));
+
+const renderResponse = (rule: FakeAIRule): string => {
+  const text =
+    typeof rule.response === "string" ? rule.response : rule.response === undefined ? "" : JSON.stringify(rule.response, null, 2);
+  return rule.fenced ? `\`\`\`json\n${text}\n\`\`\`` : text;
+};
+
+export const createFakeAIClient = (script: FakeAIScript, model = FAKE_AI_MODEL): FakeAIClient => {
+  const uses = script.rules.map(() => 0);
+  const calls: FakeAICall[] = [];
+
+  return {
+    provider: "fake",
+    model,
+    calls,
+    generate: async (prompt, options = {}): Promise<AIResponse> => {
+      const index = script.rules.findIndex(
+        (rule, i) => (rule.times === undefined || uses[i] < rule.times) && matchesRule(rule, prompt)
+      );
+      if (index === -1) {
+        throw new Error(`No fake AI rule matches the prompt: ${prompt.slice(0, 200)}`);
+      }
+
+      const rule = script.rules[index];
+      uses[index]++;
+      calls.push({ prompt, options, rule: index });
+
+      if (rule.error !== undefined) throw new Error(rule.error);
+
+      const text = renderResponse(rule);
+      return {
+        text,
+        usage: rule.usage ?? { promptTokens: estimateTokens(prompt), responseTokens: estimateTokens(text) },
+      };
+    },
+  };
+};
+
+export const loadFakeAIScript = (path: string): FakeAIScript => {
+  const script = JSON.parse(readFileSync(path, "utf-8")) as FakeAIScript;
+  if (!Array.isArray(script?.rules)) {
+    throw new Error(`Fake AI rules file ${path} has no "rules" array`);
+  }
+  return script;
+};
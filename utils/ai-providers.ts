@@ -0,0 +1,228 @@
+// Utils
+import { logger } from "utils/logger";
+import { getAICacheMode, withAICache } from "utils/ai-cache";
+import { createFakeAIClient, loadFakeAIScript, FAKE_AI_MODEL } from "utils/ai-fake";
+import { withUsageTracking } from "utils/ai-usage";
+// Types
+import type { AIUsage } from "utils/ai-usage";
+import type { JsonSchema } from "utils/response-schema";
+
+// Each workflow picks a provider and model in its config.ts. The AI_* env
+// variables override that for a single run, e.g. to point a workflow at a
+// local Ollama or llama.cpp server through their OpenAI-compatible API.
+// AI_PROVIDER=fake answers from the rules in AI_FAKE_RULES, see utils/ai-fake.
+
+export const AI_PROVIDERS = ["gemini", "openai", "fake"] as const;
+
+export type AIProviderName = (typeof AI_PROVIDERS)[number];
+
+// USD per million tokens
+export interface AIPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface AIConfig {
+  provider: AIProviderName;
+  model: string;
+  temperature?: number;
+  // OpenAI-compatible providers only, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+  // For models missing from MODEL_PRICES in utils/ai-usage
+  pricing?: AIPricing;
+}
+
+export interface AIGenerateOptions {
+  // Ask the provider for a JSON response where it supports that
+  json?: boolean;
+  // Structured-output schema the response has to follow; implies json
+  schema?: JsonSchema;
+  // Set on retries so cached responses are kept per attempt
+  attempt?: number;
+  // Tags usage records; not sent to the provider or part of the cache key
+  itemType?: string;
+}
+
+export interface AIResponse {
+  text: string;
+  // Missing when the provider does not report it, or for cached responses
+  usage?: AIUsage;
+}
+
+export interface AIClient {
+  provider: AIProviderName;
+  model: string;
+  generate: (prompt: string, options?: AIGenerateOptions) => Promise<AIResponse>;
+}
+
+// How a client is named in provenance records
+export const describeAIClient = (client: Pick<AIClient, "provider" | "model">): string =>
+  `${client.provider}/${client.model}`;
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+};
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+const isProviderName = (value: string): value is AIProviderName =>
+  (AI_PROVIDERS as readonly string[]).includes(value);
+
+export const resolveAIConfig = (config: Partial<AIConfig> = {}): AIConfig => {
+  const { AI_PROVIDER, AI_MODEL, AI_TEMPERATURE, AI_BASE_URL } = process.env;
+  const provider = AI_PROVIDER ?? config.provider ?? DEFAULT_AI_CONFIG.provider;
+
+  if (!isProviderName(provider)) {
+    throw new Error(`Unknown AI provider "${provider}". Use one of: ${AI_PROVIDERS.join(", ")}`);
+  }
+
+  const temperature = AI_TEMPERATURE !== undefined ? Number(AI_TEMPERATURE) : config.temperature;
+  if (temperature !== undefined && Number.isNaN(temperature)) {
+    throw new Error(`AI_TEMPERATURE must be a number, got "${AI_TEMPERATURE}"`);
+  }
+
+  // A workflow's model only applies to the provider it was written for
+  const model =
+    AI_MODEL ??
+    (provider === (config.provider ?? DEFAULT_AI_CONFIG.provider) ? config.model : undefined) ??
+    (provider === DEFAULT_AI_CONFIG.provider ? DEFAULT_AI_CONFIG.model : undefined) ??
+    (provider === "fake" ? FAKE_AI_MODEL : undefined);
+
+  if (!model) {
+    throw new Error(`No model configured for AI provider "${provider}". Set AI_MODEL`);
+  }
+
+  return {
+    provider,
+    model,
+    temperature,
+    baseUrl: AI_BASE_URL ?? config.baseUrl,
+    pricing: config.pricing,
+  };
+};
+
+const createGeminiClient = async (config: AIConfig): Promise<AIClient> => {
+  const { GoogleGenAI } = await import("@google/genai");
+  // Falls back to GEMINI_API_KEY / GOOGLE_API_KEY when AI_API_KEY is unset
+  const client = new GoogleGenAI({ ...(process.env.AI_API_KEY && { apiKey: process.env.AI_API_KEY }) });
+
+  return {
+    provider: "gemini",
+    model: config.model,
+    generate: async (prompt, options = {}) => {
+      const response = await client.models.generateContent({
+        model: config.model,
+        contents: prompt,
+        config: {
+          ...((options.json || options.schema) && { responseMimeType: "application/json" }),
+          ...(options.schema && { responseJsonSchema: options.schema }),
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+        },
+      });
+      const usage = response.usageMetadata;
+      return {
+        text: response.text ?? "",
+        ...(usage && {
+          usage: {
+            promptTokens: usage.promptTokenCount ?? 0,
+            // Thinking tokens are billed as output
+            responseTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+          },
+        }),
+      };
+    },
+  };
+};
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+const createOpenAICompatibleClient = (config: AIConfig): AIClient => {
+  const baseUrl = (config.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  // Local servers usually accept any key, or none at all
+  const apiKey = process.env.AI_API_KEY ?? process.env.OPENAI_API_KEY;
+
+  return {
+    provider: "openai",
+    model: config.model,
+    generate: async (prompt, options = {}) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: "user", content: prompt }],
+          ...(options.schema
+            ? { response_format: { type: "json_schema", json_schema: { name: "response", schema: options.schema } } }
+            : options.json && { response_format: { type: "json_object" } }),
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`AI request to ${baseUrl} failed with ${response.status}: ${body.slice(0, 500)}`);
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      return {
+        text: data.choices?.[0]?.message?.content ?? "",
+        ...(data.usage && {
+          usage: {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            responseTokens: data.usage.completion_tokens ?? 0,
+          },
+        }),
+      };
+    },
+  };
+};
+
+const createProviderClient = async (config: AIConfig): Promise<AIClient> => {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiClient(config);
+    case "openai":
+      return createOpenAICompatibleClient(config);
+    case "fake": {
+      const rulesPath = process.env.AI_FAKE_RULES;
+      if (!rulesPath) throw new Error("AI_FAKE_RULES must point at a rules file when AI_PROVIDER=fake");
+      return createFakeAIClient(loadFakeAIScript(rulesPath), config.model);
+    }
+  }
+};
+
+// Replay never reaches the provider, so it needs no API key or network
+const createOfflineClient = (config: AIConfig): AIClient => ({
+  provider: config.provider,
+  model: config.model,
+  generate: async () => {
+    throw new Error("AI calls are disabled while replaying from the cache");
+  },
+});
+
+// `workflow` tags the usage records of every call made through this client
+export const createAIClient = async (workflow: string, config: Partial<AIConfig> = {}): Promise<AIClient> => {
+  const resolved = resolveAIConfig(config);
+  const cacheMode = getAICacheMode();
+  logger.info("Using AI provider", {
+    provider: resolved.provider,
+    model: resolved.model,
+    ...(resolved.baseUrl && { baseUrl: resolved.baseUrl }),
+    ...(cacheMode !== "off" && { cache: cacheMode }),
+  });
+
+  const client =
+    cacheMode === "replay" ? createOfflineClient(resolved) : await createProviderClient(resolved);
+  // Cache hits are served before usage tracking, so they cost nothing
+  return withAICache(withUsageTracking(client, { workflow, pricing: resolved.pricing }), cacheMode, {
+    temperature: resolved.temperature,
+    baseUrl: resolved.baseUrl,
+  });
+};
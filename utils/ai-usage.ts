@@ -0,0 +1,205 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+// Utils
+import { logger } from "utils/logger";
+// Types
+import type { AIClient, AIPricing } from "utils/ai-providers";
+
+// Records token usage and latency for every model call, tagged by workflow and
+// item type. Run totals are summarised when the process exits and monthly
+// totals are kept in AI_USAGE_PATH, which the scheduled GitHub workflows carry
+// between runs in the Actions cache. Budgets stop further calls once reached:
+//   AI_BUDGET_RUN_TOKENS    AI_BUDGET_MONTH_TOKENS
+//   AI_BUDGET_RUN_USD       AI_BUDGET_MONTH_USD
+// Cost is only known for models with a price, see MODEL_PRICES.
+
+export interface AIUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface AIUsageRecord extends AIUsage {
+  workflow: string;
+  itemType: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export interface AIUsageTotals extends AIUsage {
+  calls: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface AIBudget {
+  runTokens?: number;
+  monthTokens?: number;
+  runUsd?: number;
+  monthUsd?: number;
+}
+
+interface AIUsageState {
+  months: Record<string, { total: AIUsageTotals; workflows: Record<string, AIUsageTotals> }>;
+}
+
+// USD per million tokens
+export const MODEL_PRICES: Record<string, AIPricing> = {
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  "gemini-2.5-flash-lite": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+};
+
+export class AIBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+export const getAIUsagePath = (): string => process.env.AI_USAGE_PATH ?? ".ai-usage.json";
+
+const readBudgetValue = (name: string): number | undefined => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  if (Number.isNaN(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+};
+
+export const getAIBudget = (): AIBudget => ({
+  runTokens: readBudgetValue("AI_BUDGET_RUN_TOKENS"),
+  monthTokens: readBudgetValue("AI_BUDGET_MONTH_TOKENS"),
+  runUsd: readBudgetValue("AI_BUDGET_RUN_USD"),
+  monthUsd: readBudgetValue("AI_BUDGET_MONTH_USD"),
+});
+
+const emptyTotals = (): AIUsageTotals => ({ calls: 0, promptTokens: 0, responseTokens: 0, costUsd: 0, latencyMs: 0 });
+
+const addToTotals = (totals: AIUsageTotals, record: AIUsageRecord): void => {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.responseTokens += record.responseTokens;
+  totals.costUsd += record.costUsd;
+  totals.latencyMs += record.latencyMs;
+};
+
+const totalTokens = (usage: AIUsage): number => usage.promptTokens + usage.responseTokens;
+
+const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+const loadState = (path = getAIUsagePath()): AIUsageState =>
+  existsSync(path) ? (JSON.parse(readFileSync(path, "utf-8")) as AIUsageState) : { months: {} };
+
+export const getMonthUsage = (month = currentMonth(), path = getAIUsagePath()): AIUsageTotals =>
+  loadState(path).months[month]?.total ?? emptyTotals();
+
+// Re-read before each write so runs of different workflows add up
+const saveRecord = (record: AIUsageRecord, path = getAIUsagePath()): void => {
+  const state = loadState(path);
+  const month = (state.months[currentMonth()] ??= { total: emptyTotals(), workflows: {} });
+  addToTotals(month.total, record);
+  addToTotals((month.workflows[record.workflow] ??= emptyTotals()), record);
+  writeFileSync(path, `${JSON.stringify(state, null, 2)}\n`);
+};
+
+export const estimateCost = (usage: AIUsage, pricing?: AIPricing): number =>
+  pricing
+    ? (usage.promptTokens * pricing.inputPerMillion + usage.responseTokens * pricing.outputPerMillion) / 1_000_000
+    : 0;
+
+const formatUsd = (value: number): string => `$${value.toFixed(4)}`;
+
+// Throws once any budget is used up; checked before every call
+const checkBudget = (budget: AIBudget, run: AIUsageTotals): void => {
+  const exceeded = (
+    label: string,
+    used: number,
+    limit: number | undefined,
+    format: (value: number) => string = String
+  ): void => {
+    if (limit !== undefined && used >= limit) {
+      throw new AIBudgetExceededError(`AI ${label} budget reached (${format(used)} of ${format(limit)})`);
+    }
+  };
+
+  exceeded("per-run token", totalTokens(run), budget.runTokens);
+  exceeded("per-run cost", run.costUsd, budget.runUsd, formatUsd);
+
+  if (budget.monthTokens !== undefined || budget.monthUsd !== undefined) {
+    const month = getMonthUsage();
+    exceeded("monthly token", totalTokens(month), budget.monthTokens);
+    exceeded("monthly cost", month.costUsd, budget.monthUsd, formatUsd);
+  }
+};
+
+export const isAIBudgetExceeded = (error: unknown): error is AIBudgetExceededError =>
+  error instanceof AIBudgetExceededError;
+
+export interface UsageTrackingOptions {
+  workflow: string;
+  pricing?: AIPricing;
+  budget?: AIBudget;
+}
+
+export const withUsageTracking = (client: AIClient, options: UsageTrackingOptions): AIClient => {
+  const { workflow, budget = getAIBudget() } = options;
+  const pricing = options.pricing ?? MODEL_PRICES[client.model];
+  const run = emptyTotals();
+  const byItemType: Record<string, AIUsageTotals> = {};
+
+  if (!pricing && (budget.runUsd !== undefined || budget.monthUsd !== undefined)) {
+    logger.warn("No price known for this model, so cost budgets cannot be enforced", { model: client.model });
+  }
+
+  process.once("exit", () => {
+    if (!run.calls) return;
+    logger.info("AI usage this run", {
+      workflow,
+      model: `${client.provider}/${client.model}`,
+      calls: run.calls,
+      promptTokens: run.promptTokens,
+      responseTokens: run.responseTokens,
+      ...(pricing && { costUsd: Number(run.costUsd.toFixed(4)) }),
+      averageLatencyMs: Math.round(run.latencyMs / run.calls),
+      byItemType: Object.fromEntries(
+        Object.entries(byItemType).map(([itemType, totals]) => [itemType, totalTokens(totals)])
+      ),
+    });
+  });
+
+  return {
+    ...client,
+    generate: async (prompt, generateOptions = {}) => {
+      checkBudget(budget, run);
+
+      const startedAt = Date.now();
+      const response = await client.generate(prompt, generateOptions);
+      const usage = response.usage ?? { promptTokens: 0, responseTokens: 0 };
+
+      const record: AIUsageRecord = {
+        workflow,
+        itemType: generateOptions.itemType ?? "item",
+        provider: client.provider,
+        model: client.model,
+        latencyMs: Date.now() - startedAt,
+        ...usage,
+        costUsd: estimateCost(usage, pricing),
+      };
+
+      addToTotals(run, record);
+      addToTotals((byItemType[record.itemType] ??= emptyTotals()), record);
+      saveRecord(record);
+
+      if (!response.usage) {
+        logger.warn("AI provider did not report token usage", { provider: client.provider, model: client.model });
+      }
+      logger.debug("AI call", { ...record });
+      return response;
+    },
+  };
+};
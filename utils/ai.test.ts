@@ -0,0 +1,130 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+// Utils
+import { batchAnnotate } from "utils/ai";
+import { createFakeAIClient, loadFakeAIScript } from "utils/ai-fake";
+import { buildPropertyUpdates } from "utils/notion";
+import { propertyBuilders } from "utils/parsing";
+import { responseSchemaFromFieldMappings } from "utils/response-schema";
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { FakeAIRule } from "utils/ai-fake";
+import type { NotionPropertyRequest } from "utils/notion";
+import type { PropertyBuilder } from "utils/parsing";
+
+interface Snack extends Record<string, string | number> {
+  flavour: string;
+  calories: number;
+}
+
+const FIELD_MAPPINGS: Array<[string, keyof Snack, PropertyBuilder]> = [
+  ["Flavour", "flavour", propertyBuilders.richText],
+  ["Calories", "calories", propertyBuilders.number],
+];
+
+const RESPONSE_SCHEMA = responseSchemaFromFieldMappings<Snack>("snacks", FIELD_MAPPINGS);
+
+// batchAnnotate reports progress on the console; keep the test output readable
+mock.method(console, "log", () => {});
+
+const RULES_FIXTURE = fileURLToPath(new URL("./fixtures/ai-fake-rules.json", import.meta.url));
+
+const snackPage = (id: string, name: string) =>
+  ({
+    object: "page",
+    id,
+    properties: {
+      Name: { type: "title", title: [{ plain_text: name }] },
+      Flavour: { type: "rich_text", rich_text: [] },
+      Calories: { type: "number", number: null },
+    },
+  }) as unknown as PageObjectResponse;
+
+const PAGES = [snackPage("s1", "Salted crisps"), snackPage("s2", "Toffee")];
+
+const BOTH_SNACKS = {
+  snacks: [
+    { key: "p1", flavour: "Salty", calories: 120 },
+    { key: "p2", flavour: "Sweet", calories: 90 },
+  ],
+};
+
+const annotate = async (rules: FakeAIRule[] | string, maxAttempts = 2) => {
+  const ai = createFakeAIClient(typeof rules === "string" ? loadFakeAIScript(rules) : { rules });
+  const written = new Map<string, Record<string, NotionPropertyRequest>>();
+
+  const report = await batchAnnotate<Snack>(ai, {
+    pages: PAGES,
+    extractName: (page) => (page.properties.Name as { title: Array<{ plain_text: string }> }).title[0].plain_text,
+    buildPrompt: async (items) => items.map(({ key, name }) => `[${key}] ${name}`).join("\n"),
+    responseSchema: RESPONSE_SCHEMA,
+    buildUpdates: (page, data) => buildPropertyUpdates(page, data, FIELD_MAPPINGS),
+    updatePage: async (page, updates) => {
+      written.set(page.id, updates);
+    },
+    itemType: "snack",
+    maxAttempts,
+    retryDelayMs: 0,
+  });
+
+  return { report, written, calls: ai.calls };
+};
+
+test("fenced JSON is unwrapped and written", async () => {
+  const { report, written } = await annotate([{ fenced: true, response: BOTH_SNACKS }]);
+
+  assert.deepEqual(report.updated, ["s1", "s2"]);
+  assert.deepEqual(written.get("s2"), {
+    Flavour: propertyBuilders.richText("Sweet"),
+    Calories: propertyBuilders.number(90),
+  });
+});
+
+test("malformed JSON is retried, using the rules fixture", async () => {
+  const { report, calls } = await annotate(RULES_FIXTURE);
+
+  assert.equal(calls.length, 2);
+  assert.deepEqual(report.updated, ["s1", "s2"]);
+  assert.deepEqual(report.failed, []);
+});
+
+test("empty responses fail every item once attempts run out", async () => {
+  const { report, written, calls } = await annotate([{ response: "" }]);
+
+  assert.equal(calls.length, 2);
+  assert.deepEqual(report.failed, ["s1", "s2"]);
+  assert.equal(written.size, 0);
+});
+
+test("a short array only re-asks for the missing items", async () => {
+  const { report, calls } = await annotate([
+    { times: 1, response: { snacks: [BOTH_SNACKS.snacks[0]] } },
+    { response: { snacks: [BOTH_SNACKS.snacks[1]] } },
+  ]);
+
+  assert.deepEqual(report.updated, ["s1", "s2"]);
+  assert.ok(!calls[1].prompt.includes("Salted crisps"));
+  assert.ok(calls[1].prompt.includes("[p2] Toffee"));
+});
+
+test("invalid, unknown and duplicated items are never written", async () => {
+  const { report, written } = await annotate(
+    [
+      {
+        response: {
+          snacks: [
+            { key: "p1", flavour: "Salty", calories: "lots" },
+            { key: "p2", flavour: "Sweet", calories: 90 },
+            { key: "p2", flavour: "Sour", calories: 10 },
+            { key: "p9", flavour: "Bitter", calories: 5 },
+          ],
+        },
+      },
+    ],
+    1
+  );
+
+  assert.deepEqual(report.failed, ["s1", "s2"]);
+  assert.equal(written.size, 0);
+});
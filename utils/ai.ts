@@ -1,160 +1,260 @@
 import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
 import { NotionPropertyRequest } from './notion';
+import { runBatch } from './batch';
+import { backoffDelay, sleep } from './rate-limit';
+import { extractResponseItems, toJsonSchema, validateResponseItem, ITEM_KEY_FIELD } from './response-schema';
+import { isAIBudgetExceeded } from './ai-usage';
+import { countFilledProperties } from './provenance';
+import type { AIClient } from './ai-providers';
+import type { ResponseSchema } from './response-schema';
+import type { ReviewQueue } from './review-queue';
 
 type PageResponse = PageObjectResponse;
 
+// Each page is listed in the prompt with a key the model has to echo back, so
+// results are matched by key rather than by position in the response
+export interface PromptItem {
+  key: string;
+  name: string;
+  page: PageResponse;
+}
+
 interface BatchAnnotateConfig<T> {
   pages: PageResponse[];
   extractName: (page: PageResponse) => string;
-  buildPrompt: (names: string[]) => Promise<string>;
-  parseResponse: (response: unknown) => T[];
+  // Called once per chunk; list each item as `[key] name`
+  buildPrompt: (items: PromptItem[]) => Promise<string>;
+  responseSchema: ResponseSchema<T>;
   buildUpdates: (page: PageResponse, data: T) => Record<string, NotionPropertyRequest>;
-  updatePage: (page: PageResponse, updates: Record<string, NotionPropertyRequest>) => Promise<void>;
+  updatePage: (page: PageResponse, updates: Record<string, NotionPropertyRequest>, data: T) => Promise<void>;
+  // When set, updates are staged for approval instead of written
+  review?: ReviewQueue<T>;
   itemType?: string;
+  chunkSize?: number;
+  maxAttempts?: number;
+  // Base delay before retrying a chunk, doubled on each attempt
+  retryDelayMs?: number;
 }
 
-interface AIResponse {
-  text?: string;
+// Page ids rather than names, so pages sharing a name are told apart
+export interface BatchAnnotateReport {
+  updated: string[];
+  // Pages whose updates went to the review queue
+  staged: string[];
+  skipped: string[];
+  // Pages that never got a valid answer or whose update failed
+  failed: string[];
+  // Pages left for a later run because the AI budget ran out
+  deferred: string[];
 }
 
-interface AIModel {
-  generateContent: (config: {
-    model: string;
-    contents: string;
-    generationConfig: {
-      response_mime_type: string;
-    };
-  }) => Promise<AIResponse>;
-}
+const getDefaultChunkSize = (): number => Number(process.env.AI_CHUNK_SIZE) || 10;
 
-export interface AIClient {
-  models: AIModel;
-}
+const getDefaultMaxAttempts = (): number => Number(process.env.AI_MAX_ATTEMPTS) || 3;
 
-type JsonPrimitive = string | number | boolean | null;
-type JsonObject = { [key: string]: JsonValue };
-type JsonArray = JsonValue[];
-type JsonValue = JsonPrimitive | JsonObject | JsonArray;
-
-const isJsonPrimitive = (value: JsonValue): value is JsonPrimitive => {
-  return (
-    value === null ||
-    typeof value === 'string' ||
-    typeof value === 'number' ||
-    typeof value === 'boolean'
-  );
+const getDefaultRetryDelayMs = (): number => {
+  const delayMs = Number(process.env.AI_RETRY_BASE_MS);
+  return process.env.AI_RETRY_BASE_MS && delayMs >= 0 ? delayMs : 2_000;
 };
 
-const isJsonObject = (value: JsonValue): value is JsonObject => {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
+const RETRY_DELAY = { maxRetries: 0, maxDelayMs: 30_000, label: "AI chunk" };
+
+// Models sometimes wrap JSON in Markdown code fences despite being asked not to
+export const parseJsonResponse = (text: string): unknown => {
+  let cleanedText = text.trim();
+  if (!cleanedText) {
+    throw new Error("AI returned an empty response");
+  }
+  if (cleanedText.startsWith("```json")) {
+    cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
+  } else if (cleanedText.startsWith("```")) {
+    cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
+  }
+  return JSON.parse(cleanedText);
 };
 
-const isJsonArray = (value: JsonValue): value is JsonArray => {
-  return Array.isArray(value);
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const readItemKey = (item: unknown): string | undefined => {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) return undefined;
+  const key = (item as Record<string, unknown>)[ITEM_KEY_FIELD];
+  return typeof key === "string" ? key.trim() : undefined;
 };
 
-const isJsonValue = (value: unknown): value is JsonValue => {
-  if (value === null) return true;
-  if (typeof value === 'string') return true;
-  if (typeof value === 'number') return true;
-  if (typeof value === 'boolean') return true;
-  if (Array.isArray(value)) {
-    return value.every(isJsonValue);
+// Pairs response items with prompt items by key. Items with an unknown key,
+// no key, or a key that appears more than once are never written.
+const matchByKey = (
+  items: PromptItem[],
+  responseItems: unknown[],
+  itemType: string
+): Map<string, unknown> => {
+  const expected = new Set(items.map((item) => item.key));
+  const counts = new Map<string, number>();
+  const matched = new Map<string, unknown>();
+
+  for (const responseItem of responseItems) {
+    const key = readItemKey(responseItem);
+    if (!key || !expected.has(key)) {
+      console.warn(`⚠ Ignoring ${itemType} with ${key ? `unknown key "${key}"` : "no key"}`);
+      continue;
+    }
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    matched.set(key, responseItem);
+  }
+
+  for (const [key, count] of counts) {
+    if (count > 1) {
+      console.warn(`⚠ Key "${key}" appeared ${count} times; not writing it`);
+      matched.delete(key);
+    }
   }
-  if (typeof value === 'object') {
-    return Object.values(value as Record<string, unknown>).every(isJsonValue);
+
+  const missing = items.filter((item) => !counts.has(item.key));
+  if (missing.length) {
+    console.warn(`⚠ Missing from response: ${missing.map((item) => `${item.name} [${item.key}]`).join(", ")}`);
   }
-  return false;
-};
 
-export const createAIClient = async (): Promise<AIClient> => {
-  const { GoogleGenAI: Client } = await import("@google/genai");
-  return new Client({});
+  return matched;
 };
 
-export const batchAnnotate = async <T>(
+// Asks for one chunk of pages, re-asking only for the items that were missing
+// or came back invalid. Resolves to the items that never got a valid answer.
+const annotateChunk = async <T>(
   ai: AIClient,
-  config: BatchAnnotateConfig<T>
-): Promise<void> => {
-  const {
-    pages,
-    extractName,
-    buildPrompt,
-    parseResponse,
-    buildUpdates,
-    updatePage,
-    itemType = "item",
-  } = config;
+  config: BatchAnnotateConfig<T>,
+  items: PromptItem[],
+  report: BatchAnnotateReport,
+  maxAttempts: number,
+  retryDelayMs: number
+): Promise<PromptItem[]> => {
+  const { buildPrompt, responseSchema, buildUpdates, updatePage, review, itemType = "item" } = config;
+  const jsonSchema = toJsonSchema(responseSchema);
+  let pending = items;
 
-  const names = pages.map(extractName);
-  const prompt = await buildPrompt(names);
+  for (let attempt = 1; attempt <= maxAttempts && pending.length; attempt++) {
+    if (attempt > 1) {
+      const delayMs = backoffDelay(attempt - 1, { ...RETRY_DELAY, baseDelayMs: retryDelayMs });
+      console.log(`Retrying ${pending.length} ${itemType}(s) in ${Math.round(delayMs / 1000)}s (attempt ${attempt}/${maxAttempts})...`);
+      await sleep(delayMs);
+    }
 
-  console.log(`\nAnnotating all ${itemType}s in one API call...`);
+    const prompt = await buildPrompt(pending);
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    generationConfig: {
-      response_mime_type: "application/json",
-    },
-  });
+    let responseItems: unknown[];
+    let responseText = "";
+    try {
+      ({ text: responseText } = await ai.generate(prompt, {
+        json: true,
+        schema: jsonSchema,
+        itemType,
+        ...(attempt > 1 && { attempt }),
+      }));
 
-  if (process.env.DEBUG) {
-    console.log("\n--- AI Response ---");
-    console.log(response.text ?? "");
-    console.log("--- End Response ---\n");
-  }
+      if (process.env.DEBUG) {
+        console.log("\n--- AI Response ---");
+        console.log(responseText);
+        console.log("--- End Response ---\n");
+      }
 
-  let parsedData: T[];
- try {
-    // Strip markdown code fences if present
-        const rawText = response.text ?? "";
-        let cleanedText = rawText.trim();
-        if (!cleanedText) {
-          throw new Error("AI returned an empty response");
-        }
-        if (cleanedText.startsWith("```json")) {
-          cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-        } else if (cleanedText.startsWith("```")) {
-          cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
+      responseItems = extractResponseItems(responseSchema, parseJsonResponse(responseText));
+    } catch (error) {
+      if (isAIBudgetExceeded(error)) {
+        console.log(`⊘ ${error.message} - leaving ${pending.length} ${itemType}(s) for a later run`);
+        report.deferred.push(...pending.map(({ page }) => page.id));
+        return [];
+      }
+      console.warn(`⚠ AI response for ${pending.length} ${itemType}(s) was unusable:`, error instanceof Error ? error.message : error);
+      if (process.env.DEBUG) console.warn("Raw response:", responseText);
+      continue;
+    }
+
+    const matched = matchByKey(pending, responseItems, itemType);
+    const valid: Array<{ item: PromptItem; data: T }> = [];
+    const retry: PromptItem[] = [];
+
+    for (const item of pending) {
+      if (!matched.has(item.key)) {
+        retry.push(item);
+        continue;
+      }
+      const data = matched.get(item.key);
+      const errors = validateResponseItem(responseSchema, data);
+      if (!errors.length) valid.push({ item, data: data as T });
+      else {
+        console.log(`⚠ Invalid data for: ${item.name} - ${errors.join("; ")}`);
+        retry.push(item);
+      }
+    }
+
+    const writes = await runBatch(
+      valid,
+      async ({ item: { page, name }, data }) => {
+        // Properties already waiting for review are left alone
+        const updates = Object.fromEntries(
+          Object.entries(buildUpdates(page, data)).filter(([property]) => !review?.isHeld(page.id, property))
+        );
+        if (!countFilledProperties(updates)) {
+          console.log(`⊘ Skipped ${name} - all fields already filled`);
+          report.skipped.push(page.id);
+          return;
         }
-        
-        const jsonResponse: unknown = JSON.parse(cleanedText);
-        
-        if (!isJsonValue(jsonResponse)) {
-          throw new Error("Response is not valid JSON");
+        if (review) {
+          await review.stage(page, updates, data);
+          console.log(`✓ Staged ${countFilledProperties(updates)} fields for review: ${name}`);
+          report.staged.push(page.id);
+          return;
         }
-        parsedData = parseResponse(jsonResponse);
-  } catch (error) {
-    console.error("Failed to parse AI response as JSON:", error);
-    console.error("Raw response:", response.text);
-    throw new Error("AI did not return valid JSON");
-  }
-
-  if (parsedData.length !== pages.length) {
-    console.warn(
-      `Warning: Expected ${pages.length} items but got ${parsedData.length}`
+        await updatePage(page, updates, data);
+        console.log(`✓ Updated ${countFilledProperties(updates)} fields for: ${name}`);
+        report.updated.push(page.id);
+      },
+      { label: `Update ${itemType}s`, describe: ({ item }) => item.name }
     );
+    report.failed.push(...writes.failed.map(({ item }) => item.item.page.id));
+
+    pending = retry;
   }
 
-  for (let i = 0; i < pages.length; i++) {
-    const data = parsedData[i];
-    const page = pages[i];
-    const name = names[i];
+  return pending;
+};
 
-    if (!data) {
-      console.log(`⚠ No data for: ${name}`);
-      continue;
-    }
+export const batchAnnotate = async <T>(
+  ai: AIClient,
+  config: BatchAnnotateConfig<T>
+): Promise<BatchAnnotateReport> => {
+  const {
+    pages,
+    extractName,
+    itemType = "item",
+    chunkSize = getDefaultChunkSize(),
+    maxAttempts = getDefaultMaxAttempts(),
+    retryDelayMs = getDefaultRetryDelayMs(),
+  } = config;
 
-    const updates = buildUpdates(page, data);
+  const report: BatchAnnotateReport = { updated: [], staged: [], skipped: [], failed: [], deferred: [] };
+  // Keys stay the same across chunks and retries within a run
+  const items = pages.map((page, i) => ({ key: `p${i + 1}`, name: extractName(page), page }));
+  const chunks = chunk(items, Math.max(1, chunkSize));
 
-    if (!Object.keys(updates).length) {
-      console.log(`⊘ Skipped ${name} - all fields already filled`);
+  for (const [index, itemsInChunk] of chunks.entries()) {
+    // Once the budget is spent the remaining chunks wait for the next run
+    if (report.deferred.length) {
+      report.deferred.push(...itemsInChunk.map(({ page }) => page.id));
       continue;
     }
 
-    await updatePage(page, updates);
-    console.log(`✓ Updated ${Object.keys(updates).length} fields for: ${name}`);
+    console.log(`\nAnnotating ${itemsInChunk.length} ${itemType}(s) (chunk ${index + 1}/${chunks.length})...`);
+
+    const unanswered = await annotateChunk(ai, config, itemsInChunk, report, maxAttempts, retryDelayMs);
+    for (const { name, page } of unanswered) {
+      console.log(`✗ No valid data for: ${name}`);
+      report.failed.push(page.id);
+    }
   }
-};
\ No newline at end of file
+
+  console.log(
+    `\nAnnotated ${itemType}s: ${report.updated.length} updated, ${report.staged.length} staged, ${report.skipped.length} skipped, ${report.failed.length} failed, ${report.deferred.length} deferred`
+  );
+  return report;
+};
@@ -0,0 +1,39 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { runBatch } from "utils/batch";
+
+afterEach(() => {
+  process.exitCode = undefined;
+});
+
+test("failed items are reported and fail the run", async () => {
+  const report = await runBatch([1, 2, 3, 4], async (n) => {
+    if (n % 2 === 0) throw new Error(`item ${n} failed`);
+    return n * 10;
+  });
+
+  assert.deepEqual(
+    report.succeeded.map(({ result }) => result),
+    [10, 30]
+  );
+  assert.deepEqual(
+    report.failed.map(({ item }) => item),
+    [2, 4]
+  );
+  assert.equal(process.exitCode, 1);
+});
+
+test("a clean batch leaves the exit code alone", async () => {
+  await runBatch([1, 2], async (n) => n);
+  assert.equal(process.exitCode, undefined);
+});
+
+test("failRun: false only reports failures", async () => {
+  const report = await runBatch([1], async () => {
+    throw new Error("nope");
+  }, { failRun: false });
+
+  assert.equal(report.failed.length, 1);
+  assert.equal(process.exitCode, undefined);
+});
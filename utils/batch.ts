@@ -0,0 +1,75 @@
+// Utils
+import { logger } from "utils/logger";
+
+// Runs a list of independent mutations a few at a time. Requests still go
+// through the shared Notion throttle, so concurrency only hides latency; a
+// failing item is recorded and the rest carry on, but the process exit code is
+// set so a scheduled run with failures does not report success.
+
+export interface BatchOptions<T> {
+  concurrency?: number;
+  // Used in log lines, e.g. "Update pub pages"
+  label?: string;
+  describe?: (item: T) => string;
+  // Set process.exitCode when any item fails; on by default
+  failRun?: boolean;
+}
+
+export interface BatchFailure<T> {
+  item: T;
+  error: Error;
+}
+
+export interface BatchReport<T, R> {
+  succeeded: Array<{ item: T; result: R }>;
+  failed: BatchFailure<T>[];
+}
+
+export const getDefaultConcurrency = (): number =>
+  Number(process.env.NOTION_CONCURRENCY) || 3;
+
+export const runBatch = async <T, R>(
+  items: T[],
+  fn: (item: T, index: number) => Promise<R>,
+  options: BatchOptions<T> = {}
+): Promise<BatchReport<T, R>> => {
+  const { concurrency = getDefaultConcurrency(), label = "Batch", describe, failRun = true } = options;
+  const results: Array<{ item: T; result: R } | BatchFailure<T>> = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        results[index] = { item, result: await fn(item, index) };
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        results[index] = { item, error };
+        logger.warn(`${label} failed for ${describe ? describe(item) : `item ${index + 1}`}`, {
+          error: error.message,
+        });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  );
+
+  const report: BatchReport<T, R> = { succeeded: [], failed: [] };
+  for (const entry of results) {
+    if ("error" in entry) report.failed.push(entry);
+    else report.succeeded.push(entry);
+  }
+
+  if (items.length) {
+    const summary = { succeeded: report.succeeded.length, failed: report.failed.length };
+    if (report.failed.length) logger.warn(`${label} finished with failures`, summary);
+    else logger.info(`${label} finished`, summary);
+  }
+
+  if (report.failed.length && failRun) process.exitCode = 1;
+
+  return report;
+};
@@ -0,0 +1,243 @@
+import type { Client } from "@notionhq/client";
+import type {
+  BlockObjectRequest,
+  BlockObjectResponse,
+  RichTextItemResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+// Utils
+import { getAllBlocks } from "utils/notion";
+// Types
+import type { BlockRequest } from "utils/markdown-blocks";
+
+// A page body loaded as a tree of typed nodes. Workflows look things up by
+// heading and to-do rather than by index into a flat list, and edits made
+// through deleteNode/insertAfter keep the tree in step with Notion.
+
+export type BlockType = BlockObjectResponse["type"];
+export type BlockOfType<T extends BlockType> = Extract<BlockObjectResponse, { type: T }>;
+
+interface BlockNodeLinks {
+  id: string;
+  // All rich text segments joined; empty for blocks without text
+  text: string;
+  parent: BlockNode | null;
+  children: BlockNode[];
+  previous: BlockNode | null;
+  next: BlockNode | null;
+}
+
+// A union over block types, so checking `type` narrows `block`
+export type BlockNode<T extends BlockType = BlockType> = T extends BlockType
+  ? BlockNodeLinks & { type: T; block: BlockOfType<T> }
+  : never;
+
+export interface BlockTree {
+  pageId: string;
+  children: BlockNode[];
+}
+
+export type HeadingType = "heading_1" | "heading_2" | "heading_3";
+
+export interface Section {
+  heading: BlockNode<HeadingType>;
+  title: string;
+  // Siblings after the heading, up to the next heading of the same or a higher level
+  blocks: BlockNode[];
+}
+
+// Notion accepts at most 100 children per append request
+const MAX_BLOCKS_PER_REQUEST = 100;
+
+// These have children of their own, but they are separate pages
+const OPAQUE_TYPES: BlockType[] = ["child_page", "child_database"];
+
+const HEADING_LEVELS: Record<HeadingType, number> = { heading_1: 1, heading_2: 2, heading_3: 3 };
+
+export const blockText = (block: BlockObjectResponse): string => {
+  const content = (block as unknown as Record<string, { rich_text?: RichTextItemResponse[]; title?: string }>)[
+    block.type
+  ];
+  if (Array.isArray(content?.rich_text)) {
+    return content.rich_text.map((item) => item.plain_text).join("");
+  }
+  return typeof content?.title === "string" ? content.title : "";
+};
+
+export const isBlockType = <T extends BlockType>(
+  node: BlockNode | null | undefined,
+  type: T
+): node is BlockNode<T> => node?.type === type;
+
+export const isHeading = (node: BlockNode | null | undefined): node is BlockNode<HeadingType> =>
+  Boolean(node && node.type in HEADING_LEVELS);
+
+export const isCheckedTodo = (node: BlockNode): node is BlockNode<"to_do"> =>
+  isBlockType(node, "to_do") && node.block.to_do.checked;
+
+const relink = (nodes: BlockNode[]): void => {
+  nodes.forEach((node, index) => {
+    node.previous = nodes[index - 1] ?? null;
+    node.next = nodes[index + 1] ?? null;
+  });
+};
+
+const toNode = (block: BlockObjectResponse, parent: BlockNode | null): BlockNode =>
+  ({
+    id: block.id,
+    type: block.type,
+    block,
+    text: blockText(block),
+    parent,
+    children: [],
+    previous: null,
+    next: null,
+  }) as BlockNode;
+
+export interface BlockTreeOptions {
+  // Load sub-pages as children of their child_page block
+  includeChildPages?: boolean;
+}
+
+const fetchChildren = async (
+  notion: Client,
+  parentId: string,
+  parent: BlockNode | null,
+  opaque: BlockType[]
+): Promise<BlockNode[]> => {
+  const blocks = await getAllBlocks(notion, parentId);
+  const nodes = blocks
+    .filter((block): block is BlockObjectResponse => "type" in block)
+    .map((block) => toNode(block, parent));
+
+  for (const node of nodes) {
+    if (node.block.has_children && !opaque.includes(node.type)) {
+      node.children = await fetchChildren(notion, node.id, node, opaque);
+    }
+  }
+
+  relink(nodes);
+  return nodes;
+};
+
+export const fetchBlockTree = async (
+  notion: Client,
+  pageId: string,
+  options: BlockTreeOptions = {}
+): Promise<BlockTree> => {
+  const opaque = options.includeChildPages ? OPAQUE_TYPES.filter((type) => type !== "child_page") : OPAQUE_TYPES;
+  return { pageId, children: await fetchChildren(notion, pageId, null, opaque) };
+};
+
+// Depth-first, parents before their children
+export function* walkTree(nodes: BlockNode[]): Generator<BlockNode> {
+  for (const node of nodes) {
+    yield node;
+    yield* walkTree(node.children);
+  }
+}
+
+const siblingsOf = (tree: BlockTree, node: BlockNode): BlockNode[] =>
+  node.parent ? node.parent.children : tree.children;
+
+export const getSections = (nodes: BlockNode[], type: HeadingType = "heading_2"): Section[] => {
+  const level = HEADING_LEVELS[type];
+  const sections: Section[] = [];
+
+  for (const heading of nodes) {
+    if (!isBlockType(heading, type)) continue;
+
+    const blocks: BlockNode[] = [];
+    for (let node = heading.next; node; node = node.next) {
+      if (isHeading(node) && HEADING_LEVELS[node.type] <= level) break;
+      blocks.push(node);
+    }
+
+    sections.push({ heading, title: heading.text.trim(), blocks });
+  }
+
+  return sections;
+};
+
+export const findSection = (
+  nodes: BlockNode[],
+  title: string,
+  type: HeadingType = "heading_2"
+): Section | undefined => getSections(nodes, type).find((section) => section.title === title);
+
+// To-dos anywhere in the section, including ones nested under other blocks
+export const getSectionTodos = (section: Section): BlockNode<"to_do">[] =>
+  [...walkTree(section.blocks)].filter((node): node is BlockNode<"to_do"> => isBlockType(node, "to_do"));
+
+export const getTodosUnderHeading = (nodes: BlockNode[], title: string): BlockNode<"to_do">[] => {
+  const section = findSection(nodes, title);
+  return section ? getSectionTodos(section) : [];
+};
+
+export const deleteNode = async (notion: Client, tree: BlockTree, node: BlockNode): Promise<void> => {
+  await notion.blocks.delete({ block_id: node.id });
+
+  const siblings = siblingsOf(tree, node);
+  siblings.splice(siblings.indexOf(node), 1);
+  relink(siblings);
+};
+
+const insertBlocks = async (
+  notion: Client,
+  tree: BlockTree,
+  parent: BlockNode | null,
+  blocks: BlockRequest[],
+  after?: BlockNode
+): Promise<BlockNode[]> => {
+  const siblings = parent ? parent.children : tree.children;
+  const inserted: BlockNode[] = [];
+  let anchor = after;
+
+  for (let i = 0; i < blocks.length; i += MAX_BLOCKS_PER_REQUEST) {
+    const chunk = blocks.slice(i, i + MAX_BLOCKS_PER_REQUEST);
+    const response = await notion.blocks.children.append({
+      block_id: parent?.id ?? tree.pageId,
+      children: chunk as BlockObjectRequest[],
+      ...(anchor && { after: anchor.id }),
+    });
+
+    // When inserting mid-page Notion may also return the blocks that follow
+    const created = response.results
+      .slice(0, chunk.length)
+      .filter((block): block is BlockObjectResponse => "type" in block)
+      .map((block) => toNode(block, parent));
+
+    const position = anchor ? siblings.indexOf(anchor) + 1 : siblings.length;
+    siblings.splice(position, 0, ...created);
+    inserted.push(...created);
+    anchor = created.at(-1) ?? anchor;
+  }
+
+  relink(siblings);
+  return inserted;
+};
+
+export const appendToTree = (
+  notion: Client,
+  tree: BlockTree,
+  blocks: BlockRequest[],
+  parent: BlockNode | null = null
+): Promise<BlockNode[]> => insertBlocks(notion, tree, parent, blocks);
+
+export const insertAfter = (
+  notion: Client,
+  tree: BlockTree,
+  anchor: BlockNode,
+  blocks: BlockRequest[]
+): Promise<BlockNode[]> => insertBlocks(notion, tree, anchor.parent, blocks, anchor);
+
+// New items go below the section's existing to-dos, or straight under the
+// heading when it has none yet
+export const insertAfterLastTodo = (
+  notion: Client,
+  tree: BlockTree,
+  section: Section,
+  blocks: BlockRequest[]
+): Promise<BlockNode[]> => {
+  const lastTodo = section.blocks.filter((node) => isBlockType(node, "to_do")).at(-1);
+  return insertAfter(notion, tree, lastTodo ?? section.heading, blocks);
+};
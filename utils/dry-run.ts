@@ -0,0 +1,270 @@
+// Utils
+import { logger } from "utils/logger";
+
+// When DRY_RUN is set, Notion writes are recorded instead of sent and a plan
+// of what would have changed is printed when the process exits. Reads still go
+// through so workflows behave exactly as they would for real.
+
+type JsonRecord = Record<string, unknown>;
+
+export type MutationAction = "create" | "update" | "archive" | "restore" | "append" | "delete";
+
+export interface PlannedMutation {
+  action: MutationAction;
+  group: string;
+  targetId: string;
+  description: string;
+  details: string[];
+}
+
+const plan: PlannedMutation[] = [];
+let syntheticIds = 0;
+
+export const isDryRun = (): boolean =>
+  ["1", "true", "yes"].includes((process.env.DRY_RUN ?? "").toLowerCase());
+
+export const getMutationPlan = (): PlannedMutation[] => [...plan];
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const truncate = (text: string, length = 80): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const richTextToString = (items: unknown): string =>
+  Array.isArray(items)
+    ? items
+        .filter(isRecord)
+        .map((item) =>
+          typeof item.plain_text === "string"
+            ? item.plain_text
+            : isRecord(item.text)
+              ? String(item.text.content ?? "")
+              : ""
+        )
+        .join("")
+    : "";
+
+export const describePropertyValue = (value: unknown): string => {
+  if (!isRecord(value)) return JSON.stringify(value);
+
+  if ("title" in value) return `"${truncate(richTextToString(value.title))}"`;
+  if ("rich_text" in value) return `"${truncate(richTextToString(value.rich_text))}"`;
+  if ("select" in value) return isRecord(value.select) ? String(value.select.name) : "(cleared)";
+  if ("multi_select" in value && Array.isArray(value.multi_select)) {
+    return `[${value.multi_select.filter(isRecord).map((o) => o.name).join(", ")}]`;
+  }
+  if ("number" in value) return String(value.number);
+  if ("checkbox" in value) return value.checkbox ? "☑" : "☐";
+  if ("url" in value) return String(value.url);
+  if ("date" in value) return isRecord(value.date) ? String(value.date.start) : "(cleared)";
+  if ("relation" in value && Array.isArray(value.relation)) {
+    return `→ ${value.relation.filter(isRecord).map((r) => r.id).join(", ")}`;
+  }
+  return truncate(JSON.stringify(value));
+};
+
+const describeProperties = (properties: unknown): string[] =>
+  isRecord(properties)
+    ? Object.entries(properties).map(([name, value]) => `${name}: ${describePropertyValue(value)}`)
+    : [];
+
+export const describeBlock = (block: unknown): string => {
+  if (!isRecord(block) || typeof block.type !== "string") return "block";
+  const content = isRecord(block[block.type]) ? (block[block.type] as JsonRecord) : {};
+  const text = richTextToString(content.rich_text);
+  const checkbox = block.type === "to_do" ? (content.checked ? "☑ " : "☐ ") : "";
+  const extra = text
+    ? ` "${truncate(text)}"`
+    : typeof content.url === "string"
+      ? ` ${truncate(content.url)}`
+      : "";
+  return `${checkbox}${block.type}${extra}`;
+};
+
+const pageTitle = (page: unknown): string | undefined => {
+  if (!isRecord(page) || !isRecord(page.properties)) return undefined;
+  const title = Object.values(page.properties).find(
+    (property) => isRecord(property) && (property.type === "title" || "title" in property)
+  );
+  return isRecord(title) ? richTextToString(title.title) || undefined : undefined;
+};
+
+export const recordMutation = (mutation: PlannedMutation): void => {
+  plan.push(mutation);
+  logger.info(`[dry run] ${mutation.action} ${mutation.description}`, { target: mutation.targetId });
+};
+
+export const formatMutationPlan = (mutations: PlannedMutation[] = plan): string => {
+  if (mutations.length === 0) {
+    return "Dry run complete - no changes would be made.";
+  }
+
+  const groups = new Map<string, PlannedMutation[]>();
+  for (const mutation of mutations) {
+    groups.set(mutation.group, [...(groups.get(mutation.group) ?? []), mutation]);
+  }
+
+  const counts = mutations.reduce<Record<string, number>>((acc, { action }) => {
+    acc[action] = (acc[action] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  const lines = [
+    `Dry run plan: ${mutations.length} change(s) (${Object.entries(counts)
+      .map(([action, count]) => `${count} ${action}`)
+      .join(", ")})`,
+  ];
+
+  for (const [group, entries] of groups) {
+    lines.push("", group);
+    for (const entry of entries) {
+      lines.push(`  ${entry.action.padEnd(7)} ${entry.description}`);
+      for (const detail of entry.details) {
+        lines.push(`            ${detail}`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+};
+
+const jsonResponse = (body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+
+const nextSyntheticId = (): string => `dry-run-${++syntheticIds}`;
+
+// Wraps a Notion fetch so that write requests are answered locally. Reads
+// (including the lookups used to label the plan) still reach `baseFetch`.
+export const withDryRun = (baseFetch: typeof fetch): typeof fetch => {
+  process.once("exit", () => {
+    console.log(`\n${formatMutationPlan()}`);
+  });
+  logger.info("DRY_RUN is enabled - Notion will not be modified");
+
+  const read = async (url: URL, init: RequestInit | undefined, path: string) => {
+    try {
+      const response = await baseFetch(`${url.origin}/v1/${path}`, {
+        method: "GET",
+        headers: init?.headers,
+      });
+      return response.ok ? ((await response.json()) as JsonRecord) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const pageGroup = async (
+    url: URL,
+    init: RequestInit | undefined,
+    pageId: string,
+    fallback = `Page ${pageId}`
+  ) => {
+    const title = pageTitle(await read(url, init, `pages/${pageId}`));
+    return title ? `Page "${title}" (${pageId})` : fallback;
+  };
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? "GET").toUpperCase();
+    const [resource, id, sub] = url.pathname.replace(/^\/v1\//, "").split("/");
+    const body: JsonRecord =
+      typeof init?.body === "string" && init.body ? JSON.parse(init.body) : {};
+
+    if (method === "GET" || (method === "POST" && sub === "query")) {
+      return baseFetch(input, init);
+    }
+
+    if (resource === "pages" && !id && method === "POST") {
+      const parent = isRecord(body.parent) ? body.parent : {};
+      const newId = nextSyntheticId();
+      recordMutation({
+        action: "create",
+        group: parent.database_id ? `Database ${parent.database_id}` : `Page ${parent.page_id}`,
+        targetId: newId,
+        description: `page "${pageTitle(body) ?? "Untitled"}"`,
+        details: describeProperties(body.properties),
+      });
+      return jsonResponse({ object: "page", id: newId, ...body });
+    }
+
+    if (resource === "pages" && id && method === "PATCH") {
+      const archived = body.archived ?? body.in_trash;
+      const details = describeProperties(body.properties);
+      if (isRecord(body.cover)) details.push("cover image");
+      if (isRecord(body.icon)) details.push("icon");
+
+      recordMutation({
+        action: archived === true ? "archive" : archived === false ? "restore" : "update",
+        group: await pageGroup(url, init, id),
+        targetId: id,
+        description: archived === undefined ? `${details.length} field(s)` : "page",
+        details: archived === undefined ? details : [],
+      });
+      return jsonResponse({ object: "page", id, properties: {}, archived: archived === true });
+    }
+
+    if (resource === "blocks" && id && sub === "children" && method === "PATCH") {
+      const children = Array.isArray(body.children) ? body.children : [];
+      recordMutation({
+        action: "append",
+        group: await pageGroup(url, init, id, `Page or block ${id}`),
+        targetId: id,
+        description: `${children.length} block(s)${body.after ? ` after ${body.after}` : ""}`,
+        details: children.map(describeBlock),
+      });
+      return jsonResponse({
+        object: "list",
+        results: children.map((child) => ({
+          object: "block",
+          id: nextSyntheticId(),
+          has_children: false,
+          ...(isRecord(child) ? child : {}),
+        })),
+        next_cursor: null,
+        has_more: false,
+      });
+    }
+
+    if (resource === "blocks" && id && !sub && method === "DELETE") {
+      const block = await read(url, init, `blocks/${id}`);
+      const parent = isRecord(block?.parent) ? block.parent : {};
+      const parentId = String(parent.page_id ?? parent.block_id ?? "unknown");
+      recordMutation({
+        action: "delete",
+        group: parent.page_id ? await pageGroup(url, init, parentId) : `Block ${parentId}`,
+        targetId: id,
+        description: block ? describeBlock(block) : `block ${id}`,
+        details: [],
+      });
+      return jsonResponse({ object: "block", id, archived: true, in_trash: true });
+    }
+
+    if (resource === "databases" && id && !sub && method === "PATCH") {
+      const properties = isRecord(body.properties) ? body.properties : {};
+      recordMutation({
+        action: "update",
+        group: `Database ${id}`,
+        targetId: id,
+        description: `${Object.keys(properties).length} property definition(s)`,
+        details: Object.entries(properties).map(
+          ([name, definition]) => `${name}: ${truncate(JSON.stringify(definition))}`
+        ),
+      });
+      const database = await read(url, init, `databases/${id}`);
+      return jsonResponse(database ?? { object: "database", id, properties: {} });
+    }
+
+    recordMutation({
+      action: "update",
+      group: `${resource} ${id ?? ""}`.trim(),
+      targetId: id ?? resource,
+      description: `${method} ${url.pathname}`,
+      details: [],
+    });
+    return jsonResponse({ object: resource.replace(/s$/, ""), id });
+  };
+};
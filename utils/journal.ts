@@ -0,0 +1,202 @@
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+// Utils
+import { logger } from "utils/logger";
+
+// Every destructive Notion call (page archive, block delete) is written to a
+// local JSONL journal before it is reported back, so a run can be undone with
+// `npx tsx workflows/undo/index.ts <runId>`.
+
+type JsonRecord = Record<string, unknown>;
+
+interface JournalEntryBase {
+  runId: string;
+  timestamp: string;
+}
+
+export interface ArchivedPageEntry extends JournalEntryBase {
+  kind: "archive_page";
+  pageId: string;
+  parent: JsonRecord | null;
+  title: string | null;
+}
+
+export interface DeletedBlockEntry extends JournalEntryBase {
+  kind: "delete_block";
+  blockId: string;
+  parentId: string;
+  previousSiblingId: string | null;
+  // Nearest heading above the block, used when the previous sibling is gone
+  headingId: string | null;
+  block: JsonRecord;
+  children: JsonRecord[];
+}
+
+export interface UndoEntry extends JournalEntryBase {
+  kind: "undo";
+  undoneRunId: string;
+}
+
+export type JournalEntry = ArchivedPageEntry | DeletedBlockEntry | UndoEntry;
+
+export const getJournalPath = (): string =>
+  process.env.NOTION_JOURNAL_PATH ?? ".notion-journal.jsonl";
+
+export const isJournalEnabled = (): boolean =>
+  !["0", "false", "off"].includes((process.env.NOTION_JOURNAL ?? "").toLowerCase());
+
+export const RUN_ID =
+  process.env.RUN_ID ??
+  `${new Date().toISOString().replace(/[-:]/g, "").replace(/\..+/, "")}-${randomBytes(3).toString("hex")}`;
+
+let entriesWritten = 0;
+
+export const appendJournalEntry = (entry: JournalEntry): void => {
+  if (entriesWritten === 0 && entry.kind !== "undo") {
+    logger.info("Journaling destructive changes", { runId: entry.runId, path: getJournalPath() });
+    process.once("exit", () => {
+      logger.info(`Journaled ${entriesWritten} change(s). Undo with: npx tsx workflows/undo/index.ts ${entry.runId}`);
+    });
+  }
+  appendFileSync(getJournalPath(), `${JSON.stringify(entry)}\n`);
+  entriesWritten++;
+};
+
+export const readJournal = (path = getJournalPath()): JournalEntry[] => {
+  if (!existsSync(path)) return [];
+
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as JournalEntry);
+};
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pageTitle = (page: JsonRecord): string | null => {
+  if (!isRecord(page.properties)) return null;
+  const title = Object.values(page.properties).find(
+    (property) => isRecord(property) && property.type === "title"
+  );
+  if (!isRecord(title) || !Array.isArray(title.title)) return null;
+  return title.title.map((t) => (isRecord(t) ? String(t.plain_text ?? "") : "")).join("") || null;
+};
+
+// Wraps a Notion fetch so destructive requests are journaled once they succeed
+export const withJournal = (baseFetch: typeof fetch): typeof fetch => {
+  const read = async (
+    origin: string,
+    init: RequestInit | undefined,
+    path: string
+  ): Promise<JsonRecord> => {
+    const response = await baseFetch(`${origin}/v1/${path}`, {
+      method: "GET",
+      headers: init?.headers,
+    });
+    if (!response.ok) {
+      throw new Error(`Could not read ${path} for the journal (${response.status})`);
+    }
+    return (await response.json()) as JsonRecord;
+  };
+
+  const listChildren = async (
+    origin: string,
+    init: RequestInit | undefined,
+    parentId: string
+  ): Promise<JsonRecord[]> => {
+    const blocks: JsonRecord[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const query = `page_size=100${cursor ? `&start_cursor=${cursor}` : ""}`;
+      const data = await read(origin, init, `blocks/${parentId}/children?${query}`);
+      blocks.push(...(Array.isArray(data.results) ? data.results.filter(isRecord) : []));
+      cursor = data.has_more ? String(data.next_cursor) : undefined;
+    } while (cursor);
+
+    return blocks;
+  };
+
+  const captureTree = async (
+    origin: string,
+    init: RequestInit | undefined,
+    block: JsonRecord
+  ): Promise<JsonRecord[]> => {
+    if (!block.has_children) return [];
+
+    const children = await listChildren(origin, init, String(block.id));
+    return Promise.all(
+      children.map(async (child) => ({
+        ...child,
+        children: await captureTree(origin, init, child),
+      }))
+    );
+  };
+
+  const captureBlock = async (
+    origin: string,
+    init: RequestInit | undefined,
+    blockId: string
+  ): Promise<Omit<DeletedBlockEntry, "runId" | "timestamp">> => {
+    const block = await read(origin, init, `blocks/${blockId}`);
+    const parent = isRecord(block.parent) ? block.parent : {};
+    const parentId = String(parent.page_id ?? parent.block_id);
+
+    const siblings = await listChildren(origin, init, parentId);
+    const index = siblings.findIndex((sibling) => sibling.id === blockId);
+    const above = index > 0 ? siblings.slice(0, index) : [];
+    const heading = [...above]
+      .reverse()
+      .find((sibling) => String(sibling.type).startsWith("heading_"));
+
+    return {
+      kind: "delete_block",
+      blockId,
+      parentId,
+      previousSiblingId: above.length ? String(above[above.length - 1].id) : null,
+      headingId: heading ? String(heading.id) : null,
+      block,
+      children: await captureTree(origin, init, block),
+    };
+  };
+
+  return async (input, init) => {
+    if (!isJournalEnabled()) return baseFetch(input, init);
+
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? "GET").toUpperCase();
+    const [resource, id, sub] = url.pathname.replace(/^\/v1\//, "").split("/");
+
+    if (resource === "blocks" && id && !sub && method === "DELETE") {
+      const captured = await captureBlock(url.origin, init, id);
+      const response = await baseFetch(input, init);
+      if (response.ok) {
+        appendJournalEntry({ runId: RUN_ID, timestamp: new Date().toISOString(), ...captured });
+      }
+      return response;
+    }
+
+    if (resource === "pages" && id && !sub && method === "PATCH") {
+      const body: JsonRecord =
+        typeof init?.body === "string" && init.body ? JSON.parse(init.body) : {};
+      if (body.archived !== true && body.in_trash !== true) return baseFetch(input, init);
+
+      const page = await read(url.origin, init, `pages/${id}`);
+      const response = await baseFetch(input, init);
+      if (response.ok) {
+        appendJournalEntry({
+          runId: RUN_ID,
+          timestamp: new Date().toISOString(),
+          kind: "archive_page",
+          pageId: id,
+          parent: isRecord(page.parent) ? page.parent : null,
+          title: pageTitle(page),
+        });
+      }
+      return response;
+    }
+
+    return baseFetch(input, init);
+  };
+};
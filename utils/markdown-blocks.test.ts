@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { blockContent, markdownToBlocks } from "utils/markdown-blocks";
+// Types
+import type { BlockRequest } from "utils/markdown-blocks";
+
+interface Outline {
+  type: string;
+  text?: string;
+  checked?: boolean;
+  children?: Outline[];
+}
+
+const outline = (block: BlockRequest): Outline => {
+  const content = blockContent(block);
+  if (!content) return { type: block.type };
+  return {
+    type: block.type,
+    text: content.rich_text.map((item) => item.text.content).join(""),
+    ...(content.checked !== undefined && { checked: content.checked }),
+    ...(content.children && { children: content.children.map(outline) }),
+  };
+};
+
+test("headings map to Notion's three levels", () => {
+  assert.deepEqual(markdownToBlocks("# One\n## Two\n### Three\n#### Four ##").map(outline), [
+    { type: "heading_1", text: "One" },
+    { type: "heading_2", text: "Two" },
+    { type: "heading_3", text: "Three" },
+    { type: "heading_3", text: "Four" },
+  ]);
+});
+
+test("paragraphs, quotes and dividers are separated by blank lines", () => {
+  const markdown = "First line\nsecond line\n\n> Quoted\n> on two lines\n\n---\n\nLast";
+
+  assert.deepEqual(markdownToBlocks(markdown).map(outline), [
+    { type: "paragraph", text: "First line\nsecond line" },
+    { type: "quote", text: "Quoted\non two lines" },
+    { type: "divider" },
+    { type: "paragraph", text: "Last" },
+  ]);
+});
+
+test("lists nest by indent up to the depth Notion accepts", () => {
+  const markdown = [
+    "- Fruit",
+    "  - Apples",
+    "    - Cox",
+    "      - Too deep",
+    "1. Step one",
+    "   continued",
+    "2. Step two",
+    "- [x] Packed",
+    "- [ ] Not packed",
+  ].join("\n");
+
+  assert.deepEqual(markdownToBlocks(markdown).map(outline), [
+    {
+      type: "bulleted_list_item",
+      text: "Fruit",
+      children: [
+        {
+          type: "bulleted_list_item",
+          text: "Apples",
+          children: [
+            { type: "bulleted_list_item", text: "Cox" },
+            { type: "bulleted_list_item", text: "Too deep" },
+          ],
+        },
+      ],
+    },
+    { type: "numbered_list_item", text: "Step one\ncontinued" },
+    { type: "numbered_list_item", text: "Step two" },
+    { type: "to_do", text: "Packed", checked: true },
+    { type: "to_do", text: "Not packed", checked: false },
+  ]);
+});
+
+test("a paragraph longer than 2000 characters stays one block", () => {
+  const text = "word ".repeat(900).trim();
+  const [block, ...rest] = markdownToBlocks(text);
+  const richText = blockContent(block)?.rich_text ?? [];
+
+  assert.equal(rest.length, 0);
+  assert.equal(block.type, "paragraph");
+  assert.equal(richText.length, 3);
+  assert.ok(richText.every((item) => item.text.content.length <= 2000));
+  assert.equal(richText.map((item) => item.text.content).join(""), text);
+});
@@ -0,0 +1,167 @@
+// Utils
+import { buildRichText } from "utils/rich-text";
+// Types
+import type { RichTextRequest } from "utils/rich-text";
+
+// Converts the Markdown that AI responses tend to use into Notion block
+// payloads: headings, paragraphs, bulleted and numbered lists, to-dos, quotes
+// and dividers. Inline formatting and links are handled by buildRichText.
+
+export type TextBlockType =
+  | "paragraph"
+  | "heading_1"
+  | "heading_2"
+  | "heading_3"
+  | "bulleted_list_item"
+  | "numbered_list_item"
+  | "to_do"
+  | "quote";
+
+export interface TextBlockContent {
+  rich_text: RichTextRequest[];
+  checked?: boolean;
+  children?: BlockRequest[];
+}
+
+export type TextBlockRequest = {
+  [K in TextBlockType]: { object?: "block"; type: K } & { [P in K]: TextBlockContent };
+}[TextBlockType];
+
+export type BlockRequest =
+  | TextBlockRequest
+  | { object?: "block"; type: "divider"; divider: Record<string, never> }
+  | { object?: "block"; type: "bookmark"; bookmark: { url: string } };
+
+type ListBlockType = "bulleted_list_item" | "numbered_list_item" | "to_do";
+
+// Notion accepts two levels of nested children in a single append request
+const MAX_LIST_DEPTH = 2;
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const TO_DO = /^[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const BULLET = /^[-*+]\s+(.*)$/;
+const NUMBERED = /^\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const DIVIDER = /^(?:-{3,}|\*{3,}|_{3,})$/;
+
+export const textBlock = (
+  type: TextBlockType,
+  text: string,
+  extra: Omit<TextBlockContent, "rich_text"> = {}
+): TextBlockRequest =>
+  ({ object: "block", type, [type]: { rich_text: buildRichText(text), ...extra } }) as TextBlockRequest;
+
+export const blockContent = (block: BlockRequest): TextBlockContent | undefined =>
+  block.type === "divider" || block.type === "bookmark"
+    ? undefined
+    : (block as unknown as Record<TextBlockType, TextBlockContent>)[block.type];
+
+const indentLevel = (line: string): number => {
+  const indent = line.match(/^\s*/)?.[0] ?? "";
+  return Math.floor(indent.replace(/\t/g, "  ").length / 2);
+};
+
+const parseListItem = (line: string): { type: ListBlockType; text: string; checked?: boolean } | undefined => {
+  const toDo = line.match(TO_DO);
+  if (toDo) return { type: "to_do", text: toDo[2], checked: toDo[1] !== " " };
+
+  const bullet = line.match(BULLET);
+  if (bullet) return { type: "bulleted_list_item", text: bullet[1] };
+
+  const numbered = line.match(NUMBERED);
+  if (numbered) return { type: "numbered_list_item", text: numbered[1] };
+
+  return undefined;
+};
+
+interface OpenListItem {
+  type: ListBlockType;
+  lines: string[];
+  checked?: boolean;
+  children: OpenListItem[];
+}
+
+const toListBlock = (item: OpenListItem): BlockRequest => {
+  const children = item.children.map(toListBlock);
+  return textBlock(item.type, item.lines.join("\n"), {
+    ...(item.type === "to_do" && { checked: Boolean(item.checked) }),
+    ...(children.length && { children }),
+  });
+};
+
+export const markdownToBlocks = (markdown: string): BlockRequest[] => {
+  const blocks: BlockRequest[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  // Top-level list items plus the path to the item currently being written
+  let list: OpenListItem[] = [];
+  let stack: OpenListItem[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push(textBlock("paragraph", paragraph.join("\n")));
+    if (quote.length) blocks.push(textBlock("quote", quote.join("\n")));
+    blocks.push(...list.map(toListBlock));
+    paragraph = [];
+    quote = [];
+    list = [];
+    stack = [];
+  };
+
+  for (const rawLine of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    const item = parseListItem(line);
+    if (item) {
+      if (paragraph.length || quote.length) flush();
+
+      // Nest under the closest shallower item, capped at the depth Notion accepts
+      const level = Math.min(indentLevel(rawLine), stack.length, MAX_LIST_DEPTH);
+      const open: OpenListItem = { type: item.type, lines: [item.text], checked: item.checked, children: [] };
+      stack = stack.slice(0, level);
+
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(open);
+      else list.push(open);
+      stack.push(open);
+      continue;
+    }
+
+    // Indented text continues the current list item
+    if (stack.length && indentLevel(rawLine) > 0) {
+      stack[stack.length - 1].lines.push(line);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push(textBlock(`heading_${level}`, heading[2]));
+      continue;
+    }
+
+    if (DIVIDER.test(line)) {
+      flush();
+      blocks.push({ object: "block", type: "divider", divider: {} });
+      continue;
+    }
+
+    const quoted = line.match(QUOTE);
+    if (quoted) {
+      if (!quote.length) flush();
+      quote.push(quoted[1]);
+      continue;
+    }
+
+    if (!paragraph.length) flush();
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+};
@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { createFakeNotion } from "utils/notion-fake";
+import { NotionApiError, notionRequest, queryDatabase, useFakeNotion, where } from "utils/notion-gateway";
+
+const seedItems = (count: number) =>
+  createFakeNotion({
+    databases: [{ id: "items", properties: { Name: { type: "title" }, Rank: { type: "number" } } }],
+    pages: Array.from({ length: count }, (_, i) => ({
+      id: `item-${i}`,
+      parent: { database_id: "items" },
+      properties: {
+        Name: { title: [{ text: { content: `Item ${i}` } }] },
+        Rank: { number: i },
+      },
+    })),
+  });
+
+test("queries page through every result with start_cursor and has_more", async () => {
+  const fake = seedItems(250);
+  useFakeNotion(fake);
+
+  const sizes: number[] = [];
+  const ids = new Set<string>();
+  for await (const batch of queryDatabase("token", "items").batches()) {
+    sizes.push(batch.length);
+    batch.forEach((page) => ids.add(page.id));
+  }
+
+  assert.deepEqual(sizes, [100, 100, 50]);
+  assert.equal(ids.size, 250);
+  assert.equal(fake.queryPages("items").length, 250);
+});
+
+test("pagination respects page size, filters and sorts", async () => {
+  useFakeNotion(seedItems(120));
+
+  const query = queryDatabase("token", "items")
+    .filter(where.number("Rank").lessThan(89))
+    .sort("Rank", "descending")
+    .pageSize(40);
+
+  const sizes: number[] = [];
+  for await (const batch of query.batches()) sizes.push(batch.length);
+  const ranks = (await query.all()).map((page) => (page.properties.Rank as { number: number }).number);
+
+  assert.deepEqual(sizes, [40, 40, 9]);
+  assert.deepEqual(ranks, Array.from({ length: 89 }, (_, i) => 88 - i));
+});
+
+test("an unknown cursor is rejected like the real API", async () => {
+  useFakeNotion(seedItems(5));
+
+  await assert.rejects(
+    notionRequest("token", "POST", "/databases/items/query", { start_cursor: "not-a-cursor" }),
+    (error: unknown) => error instanceof NotionApiError && error.status === 400
+  );
+});
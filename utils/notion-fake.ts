@@ -0,0 +1,855 @@
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// In-memory stand-in for the Notion REST API. It is exposed as a `fetch`
+// implementation so both the SDK `Client` and the raw database queries can
+// be pointed at it without any other code changes.
+
+type JsonRecord = Record<string, unknown>;
+
+interface FakePropertySchema {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface FakeDatabase {
+  object: "database";
+  id: string;
+  title: JsonRecord[];
+  properties: Record<string, FakePropertySchema & { id: string; name: string }>;
+  created_time: string;
+  last_edited_time: string;
+  archived: boolean;
+  in_trash: boolean;
+}
+
+interface FakePage {
+  object: "page";
+  id: string;
+  parent: JsonRecord;
+  properties: Record<string, JsonRecord>;
+  cover: JsonRecord | null;
+  icon: JsonRecord | null;
+  created_time: string;
+  last_edited_time: string;
+  archived: boolean;
+  in_trash: boolean;
+  url: string;
+}
+
+interface FakeBlock {
+  object: "block";
+  id: string;
+  parent: JsonRecord;
+  type: string;
+  created_time: string;
+  last_edited_time: string;
+  has_children: boolean;
+  archived: boolean;
+  in_trash: boolean;
+  [content: string]: unknown;
+}
+
+export interface FakeDatabaseSeed {
+  id: string;
+  title?: string;
+  properties: Record<string, FakePropertySchema>;
+}
+
+export interface FakePageSeed {
+  id?: string;
+  parent: { database_id: string } | { page_id: string };
+  properties?: Record<string, unknown>;
+  cover?: JsonRecord | null;
+  icon?: JsonRecord | null;
+  created_time?: string;
+  last_edited_time?: string;
+  archived?: boolean;
+}
+
+export interface FakeBlockSeed {
+  id?: string;
+  type: string;
+  children?: FakeBlockSeed[];
+  [content: string]: unknown;
+}
+
+export interface FakeFailureSeed {
+  method: string;
+  // Without the /v1 prefix, e.g. "/pages/abc"
+  path: string;
+  status: number;
+  code?: string;
+}
+
+export interface FakeNotionSeed {
+  databases?: FakeDatabaseSeed[];
+  pages?: FakePageSeed[];
+  // Keyed by parent page or block id
+  blocks?: Record<string, FakeBlockSeed[]>;
+  // Requests that are answered with an error instead of being applied
+  failures?: FakeFailureSeed[];
+}
+
+export interface FakeNotion {
+  fetch: typeof fetch;
+  getPage: (pageId: string) => FakePage | undefined;
+  getBlock: (blockId: string) => FakeBlock | undefined;
+  listChildren: (parentId: string) => FakeBlock[];
+  queryPages: (databaseId: string) => FakePage[];
+  dump: () => FakeNotionSeed;
+}
+
+class FakeNotionError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const TEXT_TYPES = new Set(["title", "rich_text"]);
+
+const DEFAULT_ANNOTATIONS = {
+  bold: false,
+  italic: false,
+  strikethrough: false,
+  underline: false,
+  code: false,
+  color: "default",
+};
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const now = (): string => new Date().toISOString();
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const normalizeRichText = (items: unknown): JsonRecord[] => {
+  if (!Array.isArray(items)) return [];
+
+  return items.filter(isRecord).map((item) => {
+    if (typeof item.plain_text === "string") return clone(item);
+
+    const text = isRecord(item.text) ? item.text : {};
+    const content = typeof text.content === "string" ? text.content : "";
+    const link = isRecord(text.link) ? text.link : null;
+
+    return {
+      type: "text",
+      text: { content, link },
+      annotations: { ...DEFAULT_ANNOTATIONS, ...(isRecord(item.annotations) ? item.annotations : {}) },
+      plain_text: content,
+      href: link && typeof link.url === "string" ? link.url : null,
+    };
+  });
+};
+
+const normalizeOption = (option: unknown): JsonRecord | null => {
+  if (!isRecord(option)) return null;
+  return {
+    id: typeof option.id === "string" ? option.id : randomUUID(),
+    name: String(option.name ?? ""),
+    color: typeof option.color === "string" ? option.color : "default",
+  };
+};
+
+const emptyValueFor = (type: string): unknown => {
+  switch (type) {
+    case "title":
+    case "rich_text":
+    case "multi_select":
+    case "relation":
+    case "files":
+    case "people":
+      return [];
+    case "checkbox":
+      return false;
+    default:
+      return null;
+  }
+};
+
+const inferPropertyType = (value: JsonRecord, schema?: FakePropertySchema): string => {
+  if (schema) return schema.type;
+  if (typeof value.type === "string") return value.type;
+  const key = Object.keys(value).find((k) => k !== "id" && k !== "type");
+  if (!key) throw new FakeNotionError(400, "validation_error", "Property value has no type");
+  return key;
+};
+
+const normalizePropertyValue = (
+  value: unknown,
+  schema?: FakePropertySchema & { id?: string }
+): JsonRecord => {
+  if (!isRecord(value)) {
+    throw new FakeNotionError(400, "validation_error", "Property value must be an object");
+  }
+
+  const type = inferPropertyType(value, schema);
+  const raw = value[type];
+  let normalized: unknown;
+
+  if (TEXT_TYPES.has(type)) {
+    normalized = normalizeRichText(raw);
+  } else if (type === "select" || type === "status") {
+    normalized = normalizeOption(raw);
+  } else if (type === "multi_select") {
+    normalized = Array.isArray(raw) ? raw.map(normalizeOption).filter(Boolean) : [];
+  } else if (type === "date") {
+    normalized = isRecord(raw)
+      ? { start: raw.start ?? null, end: raw.end ?? null, time_zone: raw.time_zone ?? null }
+      : null;
+  } else if (type === "relation") {
+    normalized = Array.isArray(raw)
+      ? raw.filter(isRecord).map((rel) => ({ id: String(rel.id) }))
+      : [];
+  } else if (type === "checkbox") {
+    normalized = Boolean(raw);
+  } else {
+    normalized = raw === undefined ? emptyValueFor(type) : clone(raw);
+  }
+
+  return {
+    id: schema?.id ?? (typeof value.id === "string" ? value.id : randomUUID().slice(0, 4)),
+    type,
+    [type]: normalized,
+    ...(type === "relation" ? { has_more: false } : {}),
+  };
+};
+
+// Plain comparable value for a response-shaped property, used by filters and sorts
+const propertyScalar = (property: JsonRecord | undefined): unknown => {
+  if (!property) return null;
+  const type = String(property.type);
+  const value = property[type];
+
+  if (TEXT_TYPES.has(type)) {
+    return (value as JsonRecord[]).map((t) => String(t.plain_text ?? "")).join("");
+  }
+  if (type === "select" || type === "status") {
+    return isRecord(value) ? value.name : null;
+  }
+  if (type === "multi_select") {
+    return (value as JsonRecord[]).map((o) => o.name);
+  }
+  if (type === "relation") {
+    return (value as JsonRecord[]).map((r) => r.id);
+  }
+  if (type === "date") {
+    return isRecord(value) ? value.start : null;
+  }
+  return value;
+};
+
+const toTime = (value: unknown): number => Date.parse(String(value));
+
+const matchesDate = (actual: unknown, condition: JsonRecord): boolean => {
+  const [operator, expected] = Object.entries(condition)[0] ?? [];
+  if (operator === "is_empty") return actual === null || actual === undefined;
+  if (operator === "is_not_empty") return actual !== null && actual !== undefined;
+  if (actual === null || actual === undefined) return false;
+
+  const a = toTime(actual);
+  const b = toTime(expected);
+  switch (operator) {
+    case "equals":
+      return String(actual).slice(0, 10) === String(expected).slice(0, 10);
+    case "before":
+      return a < b;
+    case "after":
+      return a > b;
+    case "on_or_before":
+      return a <= b;
+    case "on_or_after":
+      return a >= b;
+    default:
+      throw new FakeNotionError(400, "validation_error", `Unsupported date filter: ${operator}`);
+  }
+};
+
+const matchesCondition = (type: string, actual: unknown, condition: JsonRecord): boolean => {
+  if (type === "date") return matchesDate(actual, condition);
+
+  const [operator, expected] = Object.entries(condition)[0] ?? [];
+
+  if (Array.isArray(actual)) {
+    switch (operator) {
+      case "contains":
+        return actual.includes(expected);
+      case "does_not_contain":
+        return !actual.includes(expected);
+      case "is_empty":
+        return actual.length === 0;
+      case "is_not_empty":
+        return actual.length > 0;
+      default:
+        throw new FakeNotionError(400, "validation_error", `Unsupported ${type} filter: ${operator}`);
+    }
+  }
+
+  const text = typeof actual === "string" ? actual : "";
+  switch (operator) {
+    case "equals":
+      return actual === expected;
+    case "does_not_equal":
+      return actual !== expected;
+    case "contains":
+      return text.includes(String(expected));
+    case "does_not_contain":
+      return !text.includes(String(expected));
+    case "starts_with":
+      return text.startsWith(String(expected));
+    case "ends_with":
+      return text.endsWith(String(expected));
+    case "is_empty":
+      return actual === null || actual === undefined || actual === "";
+    case "is_not_empty":
+      return actual !== null && actual !== undefined && actual !== "";
+    case "greater_than":
+      return typeof actual === "number" && actual > Number(expected);
+    case "less_than":
+      return typeof actual === "number" && actual < Number(expected);
+    case "greater_than_or_equal_to":
+      return typeof actual === "number" && actual >= Number(expected);
+    case "less_than_or_equal_to":
+      return typeof actual === "number" && actual <= Number(expected);
+    default:
+      throw new FakeNotionError(400, "validation_error", `Unsupported ${type} filter: ${operator}`);
+  }
+};
+
+const matchesFilter = (page: FakePage, filter: JsonRecord): boolean => {
+  if (Array.isArray(filter.and)) {
+    return filter.and.every((f) => matchesFilter(page, f as JsonRecord));
+  }
+  if (Array.isArray(filter.or)) {
+    return filter.or.some((f) => matchesFilter(page, f as JsonRecord));
+  }
+  if (typeof filter.timestamp === "string") {
+    const timestamp = filter.timestamp as "created_time" | "last_edited_time";
+    return matchesDate(page[timestamp], filter[timestamp] as JsonRecord);
+  }
+  if (typeof filter.property === "string") {
+    const property = page.properties[filter.property];
+    if (!property) {
+      throw new FakeNotionError(
+        400,
+        "validation_error",
+        `Could not find property with name or id: ${filter.property}`
+      );
+    }
+    const type = Object.keys(filter).find((k) => k !== "property");
+    if (!type) throw new FakeNotionError(400, "validation_error", "Filter has no condition");
+    return matchesCondition(type, propertyScalar(property), filter[type] as JsonRecord);
+  }
+  throw new FakeNotionError(400, "validation_error", "Unsupported filter");
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+const sortPages = (pages: FakePage[], sorts: unknown): FakePage[] => {
+  if (!Array.isArray(sorts) || sorts.length === 0) return pages;
+
+  return [...pages].sort((left, right) => {
+    for (const sort of sorts.filter(isRecord)) {
+      const key = (page: FakePage) =>
+        typeof sort.timestamp === "string"
+          ? page[sort.timestamp as "created_time" | "last_edited_time"]
+          : propertyScalar(page.properties[String(sort.property)]);
+      const result = compareValues(key(left), key(right));
+      if (result !== 0) return sort.direction === "descending" ? -result : result;
+    }
+    return 0;
+  });
+};
+
+// Cursors are offsets into the result list; like Notion, anything else is rejected
+const paginate = <T>(items: T[], startCursor: unknown, pageSize: unknown) => {
+  const start = startCursor ? Number(startCursor) : 0;
+  if (!Number.isInteger(start) || start < 0 || start > items.length) {
+    throw new FakeNotionError(400, "validation_error", `Invalid start_cursor: ${String(startCursor)}`);
+  }
+  const size = Math.min(Number(pageSize) || 100, 100);
+  const results = items.slice(start, start + size);
+  const hasMore = start + size < items.length;
+
+  return {
+    object: "list",
+    results,
+    next_cursor: hasMore ? String(start + size) : null,
+    has_more: hasMore,
+  };
+};
+
+export const createFakeNotion = (seed: FakeNotionSeed = {}): FakeNotion => {
+  const databases = new Map<string, FakeDatabase>();
+  const pages = new Map<string, FakePage>();
+  const blocks = new Map<string, FakeBlock>();
+  const children = new Map<string, string[]>();
+
+  const getDatabase = (id: string): FakeDatabase => {
+    const database = databases.get(id);
+    if (!database) {
+      throw new FakeNotionError(404, "object_not_found", `Could not find database with ID: ${id}`);
+    }
+    return database;
+  };
+
+  const getPage = (id: string): FakePage => {
+    const page = pages.get(id);
+    if (!page) {
+      throw new FakeNotionError(404, "object_not_found", `Could not find page with ID: ${id}`);
+    }
+    return page;
+  };
+
+  const getBlock = (id: string): FakeBlock => {
+    const block = blocks.get(id);
+    if (!block || block.archived) {
+      throw new FakeNotionError(404, "object_not_found", `Could not find block with ID: ${id}`);
+    }
+    return block;
+  };
+
+  const withChildFlag = (block: FakeBlock): FakeBlock => ({
+    ...clone(block),
+    has_children: (children.get(block.id)?.length ?? 0) > 0,
+  });
+
+  const parentFor = (parentId: string): JsonRecord =>
+    blocks.has(parentId)
+      ? { type: "block_id", block_id: parentId }
+      : { type: "page_id", page_id: parentId };
+
+  const buildProperties = (
+    databaseId: string | undefined,
+    values: Record<string, unknown>,
+    existing: Record<string, JsonRecord> = {}
+  ): Record<string, JsonRecord> => {
+    const schema = databaseId ? getDatabase(databaseId).properties : {};
+    const properties = { ...existing };
+
+    if (databaseId && !Object.keys(existing).length) {
+      for (const [name, definition] of Object.entries(schema)) {
+        properties[name] = {
+          id: definition.id,
+          type: definition.type,
+          [definition.type]: emptyValueFor(definition.type),
+          ...(definition.type === "relation" ? { has_more: false } : {}),
+        };
+      }
+    }
+
+    for (const [name, value] of Object.entries(values)) {
+      if (databaseId && !schema[name]) {
+        throw new FakeNotionError(
+          400,
+          "validation_error",
+          `${name} is not a property that exists.`
+        );
+      }
+      properties[name] = normalizePropertyValue(value, schema[name]);
+    }
+
+    return properties;
+  };
+
+  const insertBlocks = (
+    parentId: string,
+    seeds: unknown[],
+    after?: string
+  ): FakeBlock[] => {
+    const siblings = children.get(parentId) ?? [];
+    let position = siblings.length;
+
+    if (after) {
+      const index = siblings.indexOf(after);
+      if (index === -1) {
+        throw new FakeNotionError(
+          400,
+          "validation_error",
+          `Block ${after} is not a child of ${parentId}`
+        );
+      }
+      position = index + 1;
+    }
+
+    const created: FakeBlock[] = [];
+
+    for (const seed of seeds) {
+      if (!isRecord(seed) || typeof seed.type !== "string") {
+        throw new FakeNotionError(400, "validation_error", "Block must have a type");
+      }
+
+      const { id, type, children: topLevelChildren, object: _object, ...rest } = seed;
+      const content = isRecord(rest[type]) ? { ...(rest[type] as JsonRecord) } : {};
+      const nested = Array.isArray(content.children) ? content.children : topLevelChildren;
+      delete content.children;
+
+      if ("rich_text" in content) {
+        content.rich_text = normalizeRichText(content.rich_text);
+      }
+
+      const timestamp = now();
+      const block: FakeBlock = {
+        object: "block",
+        id: typeof id === "string" ? id : randomUUID(),
+        parent: parentFor(parentId),
+        type,
+        created_time: timestamp,
+        last_edited_time: timestamp,
+        has_children: false,
+        archived: false,
+        in_trash: false,
+        [type]: content,
+      };
+
+      blocks.set(block.id, block);
+      siblings.splice(position++, 0, block.id);
+      created.push(block);
+
+      if (Array.isArray(nested) && nested.length) {
+        insertBlocks(block.id, nested);
+      }
+    }
+
+    children.set(parentId, siblings);
+    return created;
+  };
+
+  const createPage = (body: JsonRecord): FakePage => {
+    const parent = isRecord(body.parent) ? body.parent : {};
+    const databaseId = typeof parent.database_id === "string" ? parent.database_id : undefined;
+    if (databaseId) getDatabase(databaseId);
+
+    const timestamp = now();
+    const id = typeof body.id === "string" ? body.id : randomUUID();
+    const page: FakePage = {
+      object: "page",
+      id,
+      parent: databaseId
+        ? { type: "database_id", database_id: databaseId }
+        : { type: "page_id", page_id: String(parent.page_id) },
+      properties: buildProperties(databaseId, isRecord(body.properties) ? body.properties : {}),
+      cover: isRecord(body.cover) ? clone(body.cover) : null,
+      icon: isRecord(body.icon) ? clone(body.icon) : null,
+      created_time: typeof body.created_time === "string" ? body.created_time : timestamp,
+      last_edited_time: typeof body.last_edited_time === "string" ? body.last_edited_time : timestamp,
+      archived: Boolean(body.archived),
+      in_trash: Boolean(body.archived),
+      url: `https://www.notion.so/${id.replace(/-/g, "")}`,
+    };
+
+    pages.set(id, page);
+    if (Array.isArray(body.children)) insertBlocks(id, body.children);
+    return page;
+  };
+
+  const updatePage = (id: string, body: JsonRecord): FakePage => {
+    const page = getPage(id);
+    const databaseId =
+      typeof page.parent.database_id === "string" ? page.parent.database_id : undefined;
+
+    if (isRecord(body.properties)) {
+      page.properties = buildProperties(databaseId, body.properties, page.properties);
+    }
+    if ("cover" in body) page.cover = isRecord(body.cover) ? clone(body.cover) : null;
+    if ("icon" in body) page.icon = isRecord(body.icon) ? clone(body.icon) : null;
+
+    const archived = body.archived ?? body.in_trash;
+    if (typeof archived === "boolean") {
+      page.archived = archived;
+      page.in_trash = archived;
+    }
+
+    page.last_edited_time = now();
+    return page;
+  };
+
+  const databasePages = (databaseId: string): FakePage[] =>
+    [...pages.values()].filter((page) => page.parent.database_id === databaseId);
+
+  const normalizePropertyConfig = (config: unknown): JsonRecord => {
+    if (!isRecord(config)) return {};
+    return Array.isArray(config.options)
+      ? { ...clone(config), options: config.options.map(normalizeOption).filter(Boolean) }
+      : clone(config);
+  };
+
+  // Supports adding, renaming, retyping and removing properties as well as
+  // replacing select options
+  const updateDatabase = (id: string, body: JsonRecord): FakeDatabase => {
+    const database = getDatabase(id);
+    const changes = isRecord(body.properties) ? body.properties : {};
+
+    for (const [name, change] of Object.entries(changes)) {
+      const existing = database.properties[name];
+
+      if (change === null) {
+        if (!existing) continue;
+        delete database.properties[name];
+        for (const page of databasePages(id)) delete page.properties[name];
+        continue;
+      }
+      if (!isRecord(change)) {
+        throw new FakeNotionError(400, "validation_error", `Invalid property update for ${name}`);
+      }
+
+      const type = Object.keys(change).find((key) => key !== "name" && key !== "type");
+
+      if (!existing) {
+        if (!type) {
+          throw new FakeNotionError(400, "validation_error", `Property ${name} has no type`);
+        }
+        const propertyId = randomUUID().slice(0, 4);
+        database.properties[name] = {
+          id: propertyId,
+          name,
+          type,
+          [type]: normalizePropertyConfig(change[type]),
+        };
+        for (const page of databasePages(id)) {
+          page.properties[name] = { id: propertyId, type, [type]: emptyValueFor(type) };
+        }
+        continue;
+      }
+
+      if (type) {
+        if (type !== existing.type) delete existing[existing.type];
+        existing.type = type;
+        existing[type] = normalizePropertyConfig(change[type]);
+      }
+
+      if (typeof change.name === "string" && change.name !== name) {
+        database.properties[change.name] = { ...existing, name: change.name };
+        delete database.properties[name];
+        for (const page of databasePages(id)) {
+          if (!(name in page.properties)) continue;
+          page.properties[change.name] = page.properties[name];
+          delete page.properties[name];
+        }
+      }
+    }
+
+    database.last_edited_time = now();
+    return database;
+  };
+
+  const deleteBlock = (id: string): FakeBlock => {
+    const block = getBlock(id);
+    block.archived = true;
+    block.in_trash = true;
+    block.last_edited_time = now();
+
+    const parentId = String(block.parent.page_id ?? block.parent.block_id);
+    children.set(parentId, (children.get(parentId) ?? []).filter((childId) => childId !== id));
+    return block;
+  };
+
+  const queryDatabase = (databaseId: string, body: JsonRecord) => {
+    getDatabase(databaseId);
+
+    const rows = [...pages.values()].filter(
+      (page) =>
+        page.parent.database_id === databaseId &&
+        !page.archived &&
+        (!isRecord(body.filter) || matchesFilter(page, body.filter))
+    );
+
+    return {
+      ...paginate(sortPages(rows, body.sorts).map(clone), body.start_cursor, body.page_size),
+      type: "page_or_database",
+      page_or_database: {},
+    };
+  };
+
+  const handle = (method: string, url: URL, body: JsonRecord): unknown => {
+    const parts = url.pathname.replace(/^\/v1\//, "").split("/").filter(Boolean);
+    const [resource, id, sub] = parts;
+
+    const failure = seed.failures?.find(
+      (entry) => entry.method.toUpperCase() === method && entry.path === `/${parts.join("/")}`
+    );
+    if (failure) {
+      throw new FakeNotionError(
+        failure.status,
+        failure.code ?? "validation_error",
+        `Fake failure for ${method} ${failure.path}`
+      );
+    }
+
+    if (resource === "databases" && id && sub === "query" && method === "POST") {
+      return queryDatabase(id, body);
+    }
+    if (resource === "databases" && id && !sub && method === "GET") {
+      return clone(getDatabase(id));
+    }
+    if (resource === "databases" && id && !sub && method === "PATCH") {
+      return clone(updateDatabase(id, body));
+    }
+    if (resource === "pages" && !id && method === "POST") {
+      return clone(createPage(body));
+    }
+    if (resource === "pages" && id && !sub && method === "GET") {
+      return clone(getPage(id));
+    }
+    if (resource === "pages" && id && !sub && method === "PATCH") {
+      return clone(updatePage(id, body));
+    }
+    if (resource === "blocks" && id && sub === "children" && method === "GET") {
+      const list = (children.get(id) ?? []).map((childId) => withChildFlag(getBlock(childId)));
+      return {
+        ...paginate(list, url.searchParams.get("start_cursor"), url.searchParams.get("page_size")),
+        type: "block",
+        block: {},
+      };
+    }
+    if (resource === "blocks" && id && sub === "children" && method === "PATCH") {
+      if (!pages.has(id) && !children.has(id)) getBlock(id);
+      const created = insertBlocks(
+        id,
+        Array.isArray(body.children) ? body.children : [],
+        typeof body.after === "string" ? body.after : undefined
+      );
+      return { object: "list", results: created.map(withChildFlag), next_cursor: null, has_more: false };
+    }
+    if (resource === "blocks" && id && !sub && method === "GET") {
+      return withChildFlag(getBlock(id));
+    }
+    if (resource === "blocks" && id && !sub && method === "DELETE") {
+      return clone(deleteBlock(id));
+    }
+
+    throw new FakeNotionError(
+      400,
+      "invalid_request_url",
+      `Fake Notion does not support ${method} ${url.pathname}`
+    );
+  };
+
+  const fakeFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body = typeof init?.body === "string" && init.body ? JSON.parse(init.body) : {};
+
+    try {
+      const result = handle(method, url, isRecord(body) ? body : {});
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+    } catch (error) {
+      if (!(error instanceof FakeNotionError)) throw error;
+      return new Response(
+        JSON.stringify({
+          object: "error",
+          status: error.status,
+          code: error.code,
+          message: error.message,
+        }),
+        { status: error.status, headers: { "content-type": "application/json" } }
+      );
+    }
+  };
+
+  // Seed
+  for (const database of seed.databases ?? []) {
+    const timestamp = now();
+    databases.set(database.id, {
+      object: "database",
+      id: database.id,
+      title: normalizeRichText([{ text: { content: database.title ?? "" } }]),
+      properties: Object.fromEntries(
+        Object.entries(database.properties).map(([name, definition]) => [
+          name,
+          { id: randomUUID().slice(0, 4), name, ...clone(definition) },
+        ])
+      ),
+      created_time: timestamp,
+      last_edited_time: timestamp,
+      archived: false,
+      in_trash: false,
+    });
+  }
+
+  for (const page of seed.pages ?? []) {
+    createPage(page as unknown as JsonRecord);
+  }
+
+  for (const [parentId, seeds] of Object.entries(seed.blocks ?? {})) {
+    insertBlocks(parentId, seeds);
+  }
+
+  const dumpBlocks = (parentId: string): FakeBlockSeed[] =>
+    (children.get(parentId) ?? []).map((childId) => {
+      const { object: _object, parent: _parent, has_children: _hasChildren, ...block } = clone(
+        blocks.get(childId) as FakeBlock
+      );
+      const nested = dumpBlocks(childId);
+      return { ...block, ...(nested.length ? { children: nested } : {}) } as FakeBlockSeed;
+    });
+
+  return {
+    fetch: fakeFetch as typeof fetch,
+    getPage: (pageId) => (pages.has(pageId) ? clone(getPage(pageId)) : undefined),
+    getBlock: (blockId) => (blocks.has(blockId) ? clone(blocks.get(blockId)) : undefined),
+    listChildren: (parentId) =>
+      (children.get(parentId) ?? []).map((childId) => withChildFlag(getBlock(childId))),
+    queryPages: (databaseId) => {
+      const results: FakePage[] = [];
+      let cursor: string | null = null;
+      do {
+        const batch = queryDatabase(databaseId, { page_size: 100, ...(cursor && { start_cursor: cursor }) });
+        results.push(...(batch.results as FakePage[]));
+        cursor = batch.next_cursor;
+      } while (cursor);
+      return results;
+    },
+    dump: () => ({
+      databases: [...databases.values()].map((database) => ({
+        id: database.id,
+        title: database.title.map((t) => String(t.plain_text)).join(""),
+        properties: Object.fromEntries(
+          Object.entries(database.properties).map(([name, { id: _id, name: _name, ...rest }]) => [
+            name,
+            rest,
+          ])
+        ),
+      })),
+      pages: [...pages.values()].map((page) => ({
+        id: page.id,
+        parent: (page.parent.database_id
+          ? { database_id: page.parent.database_id }
+          : { page_id: page.parent.page_id }) as FakePageSeed["parent"],
+        properties: clone(page.properties),
+        cover: page.cover,
+        icon: page.icon,
+        created_time: page.created_time,
+        last_edited_time: page.last_edited_time,
+        archived: page.archived,
+      })),
+      blocks: Object.fromEntries(
+        [...children.keys()]
+          .filter((parentId) => !blocks.has(parentId))
+          .map((parentId) => [parentId, dumpBlocks(parentId)])
+      ),
+      ...(seed.failures && { failures: seed.failures }),
+    }),
+  };
+};
+
+export const loadFakeNotionSeed = (path: string): FakeNotionSeed =>
+  JSON.parse(readFileSync(path, "utf-8")) as FakeNotionSeed;
@@ -0,0 +1,382 @@
+import { writeFileSync } from "node:fs";
+// Utils
+import { logger } from "utils/logger";
+import { createFakeNotion, loadFakeNotionSeed } from "utils/notion-fake";
+import { createThrottle, withRetry } from "utils/rate-limit";
+import { isDryRun, withDryRun } from "utils/dry-run";
+import { withJournal } from "utils/journal";
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { FakeNotion } from "utils/notion-fake";
+import type { RetryStats } from "utils/rate-limit";
+
+type PageResponse = PageObjectResponse;
+
+export const NOTION_API_URL = "https://api.notion.com/v1";
+export const NOTION_VERSION = "2022-06-28";
+
+type HttpMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+interface NotionErrorBody {
+  code?: string;
+  message?: string;
+}
+
+interface DatabaseQueryResponse {
+  results: PageResponse[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export class NotionApiError extends Error {
+  constructor(
+    readonly method: HttpMethod,
+    readonly path: string,
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(`Notion API ${method} ${path} failed (${status} ${code}): ${message}`);
+    this.name = "NotionApiError";
+  }
+}
+
+let fakeNotion: FakeNotion | undefined;
+
+// Route every Notion request (SDK and raw queries) to an in-memory fake
+export const useFakeNotion = (fake: FakeNotion | undefined): void => {
+  fakeNotion = fake;
+};
+
+if (process.env.NOTION_FAKE_DATA) {
+  const fake = createFakeNotion(loadFakeNotionSeed(process.env.NOTION_FAKE_DATA));
+  useFakeNotion(fake);
+  logger.info("Using fake Notion backend", { seed: process.env.NOTION_FAKE_DATA });
+
+  const outputPath = process.env.NOTION_FAKE_OUTPUT;
+  if (outputPath) {
+    process.once("exit", () => {
+      writeFileSync(outputPath, JSON.stringify(fake.dump(), null, 2));
+    });
+  }
+}
+
+// Notion allows an average of three requests per second per integration
+const throttle = createThrottle(Number(process.env.NOTION_REQUESTS_PER_SECOND) || 3);
+
+const retryStats: RetryStats = { requests: 0, retries: 0, failures: 0 };
+
+export const getRetryStats = (): RetryStats => ({ ...retryStats });
+
+process.once("exit", () => {
+  if (retryStats.retries > 0 || retryStats.failures > 0) {
+    logger.info("Notion request summary", { ...retryStats });
+  }
+});
+
+// The fake backend is not throttled so offline runs stay fast
+const retryingFetch: typeof fetch = withRetry(
+  async (input, init) => {
+    if (fakeNotion) return fakeNotion.fetch(input, init);
+    await throttle();
+    return fetch(input, init);
+  },
+  retryStats,
+  {
+    label: "Notion request",
+    maxRetries: Number(process.env.NOTION_MAX_RETRIES) || undefined,
+  }
+);
+
+export const notionFetch: typeof fetch = isDryRun()
+  ? withDryRun(retryingFetch)
+  : withJournal(retryingFetch);
+
+export const notionRequest = async <T>(
+  token: string,
+  method: HttpMethod,
+  path: string,
+  body?: Record<string, unknown>
+): Promise<T> => {
+  const response = await notionFetch(`${NOTION_API_URL}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Notion-Version": NOTION_VERSION,
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = (await response.json().catch(() => ({}))) as NotionErrorBody;
+    throw new NotionApiError(
+      method,
+      path,
+      response.status,
+      error.code ?? "unknown_error",
+      error.message ?? response.statusText
+    );
+  }
+
+  return (await response.json()) as T;
+};
+
+// Filters
+
+type TextCondition =
+  | { equals: string }
+  | { does_not_equal: string }
+  | { contains: string }
+  | { does_not_contain: string }
+  | { starts_with: string }
+  | { ends_with: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+type NumberCondition =
+  | { equals: number }
+  | { does_not_equal: number }
+  | { greater_than: number }
+  | { less_than: number }
+  | { greater_than_or_equal_to: number }
+  | { less_than_or_equal_to: number }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+type DateCondition =
+  | { equals: string }
+  | { before: string }
+  | { after: string }
+  | { on_or_before: string }
+  | { on_or_after: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+type SelectCondition =
+  | { equals: string }
+  | { does_not_equal: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+type ListCondition =
+  | { contains: string }
+  | { does_not_contain: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+type PropertyFilter =
+  | { property: string; title: TextCondition }
+  | { property: string; rich_text: TextCondition }
+  | { property: string; url: TextCondition }
+  | { property: string; number: NumberCondition }
+  | { property: string; checkbox: { equals: boolean } | { does_not_equal: boolean } }
+  | { property: string; select: SelectCondition }
+  | { property: string; multi_select: ListCondition }
+  | { property: string; relation: ListCondition }
+  | { property: string; date: DateCondition };
+
+type TimestampFilter =
+  | { timestamp: "created_time"; created_time: DateCondition }
+  | { timestamp: "last_edited_time"; last_edited_time: DateCondition };
+
+export type QueryFilter =
+  | PropertyFilter
+  | TimestampFilter
+  | { and: QueryFilter[] }
+  | { or: QueryFilter[] };
+
+export type SortDirection = "ascending" | "descending";
+
+type QuerySort =
+  | { property: string; direction: SortDirection }
+  | { timestamp: "created_time" | "last_edited_time"; direction: SortDirection };
+
+export interface DatabaseQueryBody {
+  filter?: QueryFilter;
+  sorts?: QuerySort[];
+  page_size?: number;
+  start_cursor?: string;
+}
+
+type DateValue = Date | string;
+
+// Date-only values are formatted in local time so "today" means the local day
+const toDateString = (value: DateValue): string => {
+  if (typeof value === "string") return value;
+  const year = value.getFullYear();
+  const month = String(value.getMonth() + 1).padStart(2, "0");
+  const day = String(value.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+const textFilter = (type: "title" | "rich_text" | "url") => (property: string) => ({
+  equals: (value: string): QueryFilter => ({ property, [type]: { equals: value } }) as PropertyFilter,
+  doesNotEqual: (value: string): QueryFilter =>
+    ({ property, [type]: { does_not_equal: value } }) as PropertyFilter,
+  contains: (value: string): QueryFilter => ({ property, [type]: { contains: value } }) as PropertyFilter,
+  startsWith: (value: string): QueryFilter =>
+    ({ property, [type]: { starts_with: value } }) as PropertyFilter,
+  isEmpty: (): QueryFilter => ({ property, [type]: { is_empty: true } }) as PropertyFilter,
+  isNotEmpty: (): QueryFilter => ({ property, [type]: { is_not_empty: true } }) as PropertyFilter,
+});
+
+const dateConditions = (build: (condition: DateCondition) => QueryFilter) => ({
+  equals: (value: DateValue) => build({ equals: toDateString(value) }),
+  before: (value: DateValue) => build({ before: toDateString(value) }),
+  after: (value: DateValue) => build({ after: toDateString(value) }),
+  onOrBefore: (value: DateValue) => build({ on_or_before: toDateString(value) }),
+  onOrAfter: (value: DateValue) => build({ on_or_after: toDateString(value) }),
+  // Half-open range: start <= date < end
+  between: (start: DateValue, end: DateValue): QueryFilter => ({
+    and: [build({ on_or_after: toDateString(start) }), build({ before: toDateString(end) })],
+  }),
+  withinNextDays: (days: number, from = new Date()): QueryFilter => {
+    const start = new Date(from);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(start.getDate() + days);
+    return {
+      and: [build({ on_or_after: toDateString(start) }), build({ before: toDateString(end) })],
+    };
+  },
+  isEmpty: () => build({ is_empty: true }),
+  isNotEmpty: () => build({ is_not_empty: true }),
+});
+
+export const where = {
+  title: textFilter("title"),
+  text: textFilter("rich_text"),
+  url: textFilter("url"),
+  number: (property: string) => ({
+    equals: (value: number): QueryFilter => ({ property, number: { equals: value } }),
+    greaterThan: (value: number): QueryFilter => ({ property, number: { greater_than: value } }),
+    lessThan: (value: number): QueryFilter => ({ property, number: { less_than: value } }),
+    isEmpty: (): QueryFilter => ({ property, number: { is_empty: true } }),
+    isNotEmpty: (): QueryFilter => ({ property, number: { is_not_empty: true } }),
+  }),
+  checkbox: (property: string) => ({
+    equals: (value: boolean): QueryFilter => ({ property, checkbox: { equals: value } }),
+  }),
+  select: (property: string) => ({
+    equals: (value: string): QueryFilter => ({ property, select: { equals: value } }),
+    doesNotEqual: (value: string): QueryFilter => ({ property, select: { does_not_equal: value } }),
+    isEmpty: (): QueryFilter => ({ property, select: { is_empty: true } }),
+    isNotEmpty: (): QueryFilter => ({ property, select: { is_not_empty: true } }),
+  }),
+  multiSelect: (property: string) => ({
+    contains: (value: string): QueryFilter => ({ property, multi_select: { contains: value } }),
+    doesNotContain: (value: string): QueryFilter =>
+      ({ property, multi_select: { does_not_contain: value } }),
+    isEmpty: (): QueryFilter => ({ property, multi_select: { is_empty: true } }),
+    isNotEmpty: (): QueryFilter => ({ property, multi_select: { is_not_empty: true } }),
+  }),
+  relation: (property: string) => ({
+    contains: (pageId: string): QueryFilter => ({ property, relation: { contains: pageId } }),
+    isEmpty: (): QueryFilter => ({ property, relation: { is_empty: true } }),
+    isNotEmpty: (): QueryFilter => ({ property, relation: { is_not_empty: true } }),
+  }),
+  date: (property: string) => dateConditions((condition) => ({ property, date: condition })),
+  createdTime: () =>
+    dateConditions((condition) => ({ timestamp: "created_time", created_time: condition })),
+  lastEditedTime: () =>
+    dateConditions((condition) => ({ timestamp: "last_edited_time", last_edited_time: condition })),
+};
+
+export const and = (...filters: QueryFilter[]): QueryFilter => ({ and: filters });
+
+export const or = (...filters: QueryFilter[]): QueryFilter => ({ or: filters });
+
+// Query builder
+
+export class DatabaseQuery {
+  private readonly filters: QueryFilter[] = [];
+  private readonly sorts: QuerySort[] = [];
+  private size = 100;
+
+  constructor(
+    private readonly token: string,
+    readonly databaseId: string
+  ) {}
+
+  // Multiple filters are combined with "and"
+  filter(...filters: QueryFilter[]): this {
+    this.filters.push(...filters);
+    return this;
+  }
+
+  sort(property: string, direction: SortDirection = "ascending"): this {
+    this.sorts.push({ property, direction });
+    return this;
+  }
+
+  sortByTimestamp(
+    timestamp: "created_time" | "last_edited_time",
+    direction: SortDirection = "ascending"
+  ): this {
+    this.sorts.push({ timestamp, direction });
+    return this;
+  }
+
+  pageSize(size: number): this {
+    this.size = Math.max(1, Math.min(size, 100));
+    return this;
+  }
+
+  build(startCursor?: string): DatabaseQueryBody {
+    const filter = this.filters.length > 1 ? and(...this.filters) : this.filters[0];
+    return {
+      ...(filter && { filter }),
+      ...(this.sorts.length && { sorts: this.sorts }),
+      page_size: this.size,
+      ...(startCursor && { start_cursor: startCursor }),
+    };
+  }
+
+  // Yields one array of results per API page
+  async *batches(): AsyncGenerator<PageResponse[]> {
+    let cursor: string | undefined;
+
+    do {
+      const data = await notionRequest<DatabaseQueryResponse>(
+        this.token,
+        "POST",
+        `/databases/${this.databaseId}/query`,
+        { ...this.build(cursor) }
+      );
+      yield data.results;
+      cursor = data.has_more ? (data.next_cursor ?? undefined) : undefined;
+    } while (cursor);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<PageResponse> {
+    for await (const batch of this.batches()) {
+      yield* batch;
+    }
+  }
+
+  async all(): Promise<PageResponse[]> {
+    const pages: PageResponse[] = [];
+    for await (const page of this) {
+      pages.push(page);
+    }
+    return pages;
+  }
+
+  async first(): Promise<PageResponse | undefined> {
+    const data = await notionRequest<DatabaseQueryResponse>(
+      this.token,
+      "POST",
+      `/databases/${this.databaseId}/query`,
+      { ...this.build(), page_size: 1 }
+    );
+    return data.results[0];
+  }
+
+  async exists(): Promise<boolean> {
+    return (await this.first()) !== undefined;
+  }
+}
+
+export const queryDatabase = (token: string, databaseId: string): DatabaseQuery =>
+  new DatabaseQuery(token, databaseId);
@@ -8,18 +8,16 @@ import type {
 } from "@notionhq/client/build/src/api-endpoints";
 // Utils
 import { logger } from 'utils/logger';
+import { notionFetch, queryDatabase } from "utils/notion-gateway";
+import { recordProvenance } from "utils/provenance";
+import { findLatestSnapshot, readsFromSnapshot } from "utils/snapshot";
 // Types
 import type { PropertyBuilder } from "utils/parsing";
+import type { RichTextRequest } from "utils/rich-text";
 
 type PageResponse = PageObjectResponse;
 type BlockResponse = BlockObjectResponse | PartialBlockObjectResponse;
 
-interface DatabaseQueryResponse {
-  results: PageResponse[];
-  has_more: boolean;
-  next_cursor: string | null;
-}
-
 export type NotionPropertyResponse =
   | { type: "number"; number: number | null }
   | { type: "rich_text"; rich_text: RichTextItemResponse[] }
@@ -30,13 +28,15 @@ export type NotionPropertyResponse =
 
 export type NotionPropertyRequest =
   | { type?: "number"; number: number | null }
-  | { type?: "rich_text"; rich_text: Array<{ text: { content: string; link?: { url: string } | null } }> }
+  | { type?: "rich_text"; rich_text: RichTextRequest[] }
   | { type?: "select"; select: { name: string } | null }
   | { type?: "multi_select"; multi_select: Array<{ name: string }> }
-  | { type?: "title"; title: Array<{ text: { content: string; link?: { url: string } | null } }> };
+  | { type?: "title"; title: RichTextRequest[] };
 
+// Throttling and retries happen inside notionFetch, so the SDK timeout has to
+// cover a request's whole retry sequence rather than a single attempt
 export const createNotionClient = (token: string): Client => 
-  new Client({ auth: token });
+  new Client({ auth: token, fetch: notionFetch, timeoutMs: 5 * 60_000 });
 
 export const getAllPages = async (
   databaseId: string,
@@ -44,39 +44,17 @@ export const getAllPages = async (
 ): Promise<PageResponse[]> => {
   logger.info("Using token");
 
+  if (readsFromSnapshot()) {
+    const snapshot = findLatestSnapshot(databaseId);
+    if (snapshot) return Object.values(snapshot.pages).map((page) => page.raw);
+    logger.warn("No snapshot found for database, reading from Notion", { databaseId });
+  }
+
   const allPages: PageResponse[] = [];
-  let hasMore = true;
-  let startCursor: string | undefined = undefined;
-
-  while (hasMore) {
-    const response = await fetch(
-      `https://api.notion.com/v1/databases/${databaseId}/query`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Notion-Version": "2022-06-28",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          start_cursor: startCursor,
-          page_size: 100,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Failed to query database: ${error.message}`);
-    }
 
-    const data = await response.json() as DatabaseQueryResponse;
-    allPages.push(...data.results);
-    
-    hasMore = data.has_more;
-    startCursor = data.next_cursor || undefined;
-    
-    logger.info(`Fetched ${data.results.length} pages (total so far: ${allPages.length})`);
+  for await (const batch of queryDatabase(token, databaseId).batches()) {
+    allPages.push(...batch);
+    logger.info(`Fetched ${batch.length} pages (total so far: ${allPages.length})`);
   }
 
   logger.info(`Found ${allPages.length} pages in database`);
@@ -149,22 +127,34 @@ export const hasEmptyProperties = (
   });
 };
 
+export interface PropertyUpdateOptions {
+  // Recorded in "Filled by" for every property filled
+  source?: string;
+  // Filled properties that may be overwritten, e.g. when refreshing
+  overwrite?: string[];
+}
+
 export const buildPropertyUpdates = <T extends { [K in keyof T]: string | number }>(
   page: PageResponse,
   data: T,
-  fieldMappings: Array<[string, keyof T, PropertyBuilder]>
+  fieldMappings: Array<[string, keyof T, PropertyBuilder]>,
+  options: PropertyUpdateOptions = {}
 ): Record<string, NotionPropertyRequest> => {
   if (!("properties" in page)) return {};
+  const { source, overwrite = [] } = options;
   
-  return fieldMappings.reduce((updates, [propertyName, dataKey, builder]) => {
+  const updates = fieldMappings.reduce((updates, [propertyName, dataKey, builder]) => {
     const value = data[dataKey];
     const property = page.properties[propertyName];
+    const writable = isEmpty(property as NotionPropertyResponse) || overwrite.includes(propertyName);
     
-    if (isEmpty(property as NotionPropertyResponse) && value !== null && value !== undefined) {
+    if (writable && value !== null && value !== undefined) {
       updates[propertyName] = builder(value);
     }
     return updates;
   }, {} as Record<string, NotionPropertyRequest>);
+
+  return source ? recordProvenance(page, updates, source) : updates;
 };
 
 export const updatePage = async (
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { createNotionClient } from "utils/notion";
+import { createFakeNotion } from "utils/notion-fake";
+import { useFakeNotion } from "utils/notion-gateway";
+import { writeManagedSection } from "utils/page-body";
+// Types
+import type { FakeBlockSeed, FakeNotion } from "utils/notion-fake";
+
+const block = (type: string, text: string): FakeBlockSeed => ({
+  type,
+  [type]: { rich_text: [{ text: { content: text } }] },
+});
+
+const seedPage = (blocks: FakeBlockSeed[]): FakeNotion => {
+  const fake = createFakeNotion({
+    pages: [{ id: "page", parent: { page_id: "root" } }],
+    blocks: { page: blocks },
+  });
+  useFakeNotion(fake);
+  return fake;
+};
+
+const bodyOf = (fake: FakeNotion): string[] =>
+  fake.listChildren("page").map((child) => {
+    const content = child[child.type] as { rich_text: Array<{ plain_text: string }> };
+    return `${child.type}: ${content.rich_text.map((item) => item.plain_text).join("")}`;
+  });
+
+test("refreshing a section replaces only the blocks under its heading", async () => {
+  const fake = seedPage([
+    block("paragraph", "Intro"),
+    block("heading_2", "Summary"),
+    block("paragraph", "Old summary"),
+    block("bulleted_list_item", "Old point"),
+    block("heading_2", "Notes"),
+    block("paragraph", "Written by hand"),
+  ]);
+
+  await writeManagedSection(createNotionClient("test"), "page", "Summary", "New summary\n\n- First\n- Second");
+
+  assert.deepEqual(bodyOf(fake), [
+    "paragraph: Intro",
+    "heading_2: Summary",
+    "paragraph: New summary",
+    "bulleted_list_item: First",
+    "bulleted_list_item: Second",
+    "heading_2: Notes",
+    "paragraph: Written by hand",
+  ]);
+});
+
+test("headings in the content are demoted so they do not end the section", async () => {
+  const fake = seedPage([block("heading_2", "Summary"), block("paragraph", "Old")]);
+  const notion = createNotionClient("test");
+
+  await writeManagedSection(notion, "page", "Summary", "# Overview\nText\n## Details\nMore");
+  assert.deepEqual(bodyOf(fake), [
+    "heading_2: Summary",
+    "heading_3: Overview",
+    "paragraph: Text",
+    "heading_3: Details",
+    "paragraph: More",
+  ]);
+
+  await writeManagedSection(notion, "page", "Summary", "Replaced");
+
+  assert.deepEqual(bodyOf(fake), ["heading_2: Summary", "paragraph: Replaced"]);
+});
+
+test("a missing section is added at the end of the page", async () => {
+  const fake = seedPage([block("paragraph", "Intro")]);
+
+  await writeManagedSection(createNotionClient("test"), "page", "Method", "## Prep\nChop");
+
+  assert.deepEqual(bodyOf(fake), [
+    "paragraph: Intro",
+    "heading_2: Method",
+    "heading_3: Prep",
+    "paragraph: Chop",
+  ]);
+});
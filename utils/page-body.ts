@@ -0,0 +1,66 @@
+import type { Client } from "@notionhq/client";
+// Utils
+import { logger } from "utils/logger";
+import { appendToTree, deleteNode, fetchBlockTree, findSection, insertAfter } from "utils/block-tree";
+import { blockContent, markdownToBlocks, textBlock } from "utils/markdown-blocks";
+// Types
+import type { BlockRequest } from "utils/markdown-blocks";
+
+// A managed section is a heading_2 owned by a workflow plus every block up to
+// the next heading_1 or heading_2. Refreshing it replaces the blocks under the
+// heading and leaves the rest of the page alone.
+
+// Headings inside the section would otherwise end it early
+const demoteHeadings = (blocks: BlockRequest[]): BlockRequest[] =>
+  blocks.map((block) => {
+    if (block.type !== "heading_1" && block.type !== "heading_2") return block;
+    const content = blockContent(block);
+    return { object: "block", type: "heading_3", heading_3: { rich_text: content?.rich_text ?? [] } };
+  });
+
+export const writeManagedSection = async (
+  notion: Client,
+  pageId: string,
+  heading: string,
+  content: string | BlockRequest[]
+): Promise<void> => {
+  const blocks = demoteHeadings(typeof content === "string" ? markdownToBlocks(content) : content);
+  const tree = await fetchBlockTree(notion, pageId);
+  const section = findSection(tree.children, heading);
+
+  if (!section) {
+    await appendToTree(notion, tree, [textBlock("heading_2", heading), ...blocks]);
+    logger.info(`Added "${heading}" section`, { pageId, blocks: blocks.length });
+    return;
+  }
+
+  for (const node of section.blocks) {
+    await deleteNode(notion, tree, node);
+  }
+
+  await insertAfter(notion, tree, section.heading, blocks);
+  logger.info(`Refreshed "${heading}" section`, {
+    pageId,
+    removed: section.blocks.length,
+    blocks: blocks.length,
+  });
+};
+
+// [property, data key, section heading]
+export type BodySection<T> = [string, keyof T, string];
+
+// Mirrors long-form fields into the page body, but only the ones filled in
+// this update so hand-edited sections are not overwritten on later runs
+export const writeBodySections = async <T>(
+  notion: Client,
+  pageId: string,
+  data: Partial<T>,
+  updatedProperties: string[],
+  sections: BodySection<T>[]
+): Promise<void> => {
+  for (const [property, dataKey, heading] of sections) {
+    const value = data[dataKey];
+    if (!updatedProperties.includes(property) || typeof value !== "string" || !value.trim()) continue;
+    await writeManagedSection(notion, pageId, heading, value);
+  }
+};
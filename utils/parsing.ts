@@ -1,4 +1,5 @@
 import {  NotionPropertyRequest } from './notion';
+import { buildRichText } from './rich-text';
 
 export const parseMultiSelect = (text: string) =>
   text
@@ -14,7 +15,7 @@ export const propertyBuilders = {
     title: [{ text: { content: String(value) } }] 
   }),
   richText: (value: string | number): NotionPropertyRequest => ({
-    rich_text: [{ text: { content: String(value) } }] 
+    rich_text: buildRichText(String(value))
   }),
   select: (value: string | number): NotionPropertyRequest => ({
     select: { name: String(value) } 
@@ -0,0 +1,114 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+// Utils
+import { PromptTemplateError, renderPrompt, renderTemplate } from "utils/prompt";
+
+const SHARED_RULES = readFileSync(new URL("../prompts/partials/output-json-rules.md", import.meta.url), "utf-8").trim();
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  delete process.env.PROMPT_OVERRIDE_DIR;
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+// Writes { "relative/path.md": text } under a fresh directory
+const writeFiles = (files: Record<string, string>): string => {
+  const dir = mkdtempSync(join(tmpdir(), "prompt-test-"));
+  tempDirs.push(dir);
+  for (const [path, text] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(join(dir, path), text);
+  }
+  return dir;
+};
+
+const problemsOf = (fn: () => unknown): string[] => {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof PromptTemplateError);
+    return error.problems;
+  }
+  assert.fail("expected a PromptTemplateError");
+};
+
+const rejectsWith = async (promise: Promise<unknown>, problem: RegExp) =>
+  assert.rejects(promise, (error: unknown) => error instanceof PromptTemplateError && problem.test(error.problems[0]));
+
+test("variables are substituted in a single pass", () => {
+  assert.equal(
+    renderTemplate("List {{ITEMS}} for {{ COUNT }} people", { ITEMS: "{{COUNT}} eggs", COUNT: 4 }),
+    "List {{COUNT}} eggs for 4 people"
+  );
+});
+
+test("a placeholder without a value is an error", () => {
+  assert.deepEqual(problemsOf(() => renderTemplate("Hello {{NAME}}", {})), ["no value for {{NAME}}"]);
+});
+
+test("a variable the template never uses is an error", () => {
+  assert.deepEqual(problemsOf(() => renderTemplate("Hello", { NAME: "x", TYPO: "y" })), [
+    "unused variable(s) NAME, TYPO",
+  ]);
+});
+
+test("malformed placeholders are errors and every problem is reported", () => {
+  assert.deepEqual(problemsOf(() => renderTemplate("{{name}} {{A-B}} {{}} {{name}} {{X}}", { Y: 1 })), [
+    "malformed placeholder {{name}}",
+    "malformed placeholder {{A-B}}",
+    "malformed placeholder {{}}",
+    "no value for {{X}}",
+    "unused variable(s) Y",
+  ]);
+});
+
+test("shared partials are pulled in before variables are filled", async () => {
+  const dir = writeFiles({ "prompt.md": "Describe {{ITEMS}}.\n\n{{> output-json-rules}}" });
+
+  assert.equal(
+    await renderPrompt({ dir, workflow: "snacks" }, { ITEMS: "crisps" }),
+    `Describe crisps.\n\n${SHARED_RULES}`
+  );
+});
+
+test("partials can include other partials and use variables", async () => {
+  const dir = writeFiles({ "prompt.md": "{{> outer}}" });
+  process.env.PROMPT_OVERRIDE_DIR = writeFiles({
+    "partials/outer.md": "Outer, then {{> inner}}",
+    "partials/inner.md": "inner for {{NAME}}\n",
+  });
+
+  assert.equal(await renderPrompt({ dir, workflow: "snacks" }, { NAME: "Toffee" }), "Outer, then inner for Toffee");
+});
+
+test("unknown, self-including and too deeply nested partials are errors", async () => {
+  const dir = writeFiles({ "unknown.md": "{{> missing}}", "loop.md": "{{> a}}", "deep.md": "{{> d1}}" });
+  process.env.PROMPT_OVERRIDE_DIR = writeFiles({
+    "partials/a.md": "{{> b}}",
+    "partials/b.md": "{{> a}}",
+    ...Object.fromEntries(Array.from({ length: 6 }, (_, i) => [`partials/d${i + 1}.md`, `{{> d${i + 2}}}`])),
+    "partials/d7.md": "bottom",
+  });
+
+  await rejectsWith(renderPrompt({ dir, workflow: "snacks", file: "unknown.md" }, {}), /unknown partial "missing"/);
+  await rejectsWith(renderPrompt({ dir, workflow: "snacks", file: "loop.md" }, {}), /"a" includes itself \(a → b → a\)/);
+  await rejectsWith(renderPrompt({ dir, workflow: "snacks", file: "deep.md" }, {}), /nested more than 5 deep at "d6"/);
+});
+
+test("PROMPT_OVERRIDE_DIR replaces a workflow's prompt and shared partials", async () => {
+  const dir = writeFiles({ "prompt.md": "Default for {{ITEMS}}" });
+  process.env.PROMPT_OVERRIDE_DIR = writeFiles({
+    "snacks/prompt.md": "Override for {{ITEMS}}\n{{> output-json-rules}}",
+    "partials/output-json-rules.md": "Local JSON rules",
+  });
+
+  assert.equal(
+    await renderPrompt({ dir, workflow: "snacks" }, { ITEMS: "crisps" }),
+    "Override for crisps\nLocal JSON rules"
+  );
+  assert.equal(await renderPrompt({ dir, workflow: "walks" }, { ITEMS: "crisps" }), "Default for crisps");
+});
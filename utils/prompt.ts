@@ -0,0 +1,120 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+// Utils
+import { logger } from "utils/logger";
+
+// Renders a workflow's prompt.md. Templates use `{{NAME}}` for variables and
+// `{{> name}}` to pull in a shared partial from prompts/partials/name.md. A
+// placeholder without a value, a variable the template never uses and any
+// malformed `{{...}}` are errors, so typos cannot reach the model.
+//
+// PROMPT_OVERRIDE_DIR lets one instance tweak prompts without forking the
+// workflow: <dir>/<workflow>/prompt.md replaces the workflow's prompt and
+// <dir>/partials/<name>.md replaces a shared partial.
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface PromptSource {
+  // Directory holding the workflow's own prompt files
+  dir: string;
+  workflow: string;
+  file?: string;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(
+    readonly source: string,
+    readonly problems: string[]
+  ) {
+    super(`Prompt ${source} is invalid: ${problems.join("; ")}`);
+    this.name = "PromptTemplateError";
+  }
+}
+
+const PARTIALS_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "prompts", "partials");
+
+// Partials may include other partials, up to this depth
+const MAX_PARTIAL_DEPTH = 5;
+
+const PLACEHOLDER = /\{\{([^{}]*)\}\}/g;
+const VARIABLE_NAME = /^\s*([A-Z][A-Z0-9_]*)\s*$/;
+const PARTIAL_NAME = /^\s*>\s*([a-z0-9][a-z0-9-]*)\s*$/;
+
+const loggedOverrides = new Set<string>();
+
+// Prefers the PROMPT_OVERRIDE_DIR copy of a file when there is one
+const resolvePath = (defaultPath: string, ...overrideParts: string[]): string => {
+  const overrideDir = process.env.PROMPT_OVERRIDE_DIR;
+  const overridePath = overrideDir && join(overrideDir, ...overrideParts);
+
+  if (!overridePath || !existsSync(overridePath)) return defaultPath;
+
+  if (!loggedOverrides.has(overridePath)) {
+    loggedOverrides.add(overridePath);
+    logger.info("Using prompt override", { path: overridePath });
+  }
+  return overridePath;
+};
+
+const expandPartials = async (text: string, source: string, chain: string[] = []): Promise<string> => {
+  const names = [...text.matchAll(PLACEHOLDER)]
+    .map(([, inner]) => PARTIAL_NAME.exec(inner)?.[1])
+    .filter((name): name is string => Boolean(name));
+
+  const contents = new Map<string, string>();
+  for (const name of new Set(names)) {
+    if (chain.includes(name)) {
+      throw new PromptTemplateError(source, [`partial "${name}" includes itself (${[...chain, name].join(" → ")})`]);
+    }
+    if (chain.length >= MAX_PARTIAL_DEPTH) {
+      throw new PromptTemplateError(source, [`partials nested more than ${MAX_PARTIAL_DEPTH} deep at "${name}"`]);
+    }
+
+    const path = resolvePath(join(PARTIALS_DIR, `${name}.md`), "partials", `${name}.md`);
+    if (!existsSync(path)) {
+      throw new PromptTemplateError(source, [`unknown partial "${name}"`]);
+    }
+    const partial = (await readFile(path, "utf-8")).trim();
+    contents.set(name, await expandPartials(partial, source, [...chain, name]));
+  }
+
+  return text.replace(PLACEHOLDER, (match, inner: string) => {
+    const name = PARTIAL_NAME.exec(inner)?.[1];
+    return name ? contents.get(name)! : match;
+  });
+};
+
+// Substitutes in a single pass, so values containing braces are left alone
+export const renderTemplate = (template: string, variables: PromptVariables, source = "template"): string => {
+  const problems: string[] = [];
+  const used = new Set<string>();
+
+  const rendered = template.replace(PLACEHOLDER, (match, inner: string) => {
+    const name = VARIABLE_NAME.exec(inner)?.[1];
+    if (!name) {
+      problems.push(`malformed placeholder ${match}`);
+    } else if (!(name in variables)) {
+      problems.push(`no value for ${match}`);
+    } else {
+      used.add(name);
+      return String(variables[name]);
+    }
+    return match;
+  });
+
+  const unused = Object.keys(variables).filter((name) => !used.has(name));
+  if (unused.length) problems.push(`unused variable(s) ${unused.join(", ")}`);
+
+  if (problems.length) throw new PromptTemplateError(source, [...new Set(problems)]);
+  return rendered;
+};
+
+export const renderPrompt = async (prompt: PromptSource, variables: PromptVariables): Promise<string> => {
+  const file = prompt.file ?? "prompt.md";
+  const path = resolvePath(join(prompt.dir, file), prompt.workflow, file);
+
+  const template = await expandPartials(await readFile(path, "utf-8"), path);
+  return renderTemplate(template, variables, path);
+};
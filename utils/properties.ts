@@ -0,0 +1,106 @@
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+
+type PageResponse = PageObjectResponse;
+type PropertyValue = PageResponse["properties"][string];
+type PropertyType = PropertyValue["type"];
+type PropertyOfType<T extends PropertyType> = Extract<PropertyValue, { type: T }>;
+
+export interface DateValue {
+  start: string;
+  end: string | null;
+}
+
+export interface PlaceValue {
+  lat: number;
+  lon: number;
+  name?: string | null;
+  address?: string | null;
+}
+
+export class PropertyError extends Error {
+  constructor(
+    readonly pageId: string,
+    readonly property: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "PropertyError";
+  }
+}
+
+export const readProperty = <T extends PropertyType>(
+  page: PageResponse,
+  name: string,
+  type: T
+): PropertyOfType<T> => {
+  const property = page.properties[name];
+
+  if (!property) {
+    const available = Object.keys(page.properties).join(", ");
+    throw new PropertyError(
+      page.id,
+      name,
+      `Property "${name}" not found on page ${page.id} (was it renamed?). Available: ${available}`
+    );
+  }
+
+  if (property.type !== type) {
+    throw new PropertyError(
+      page.id,
+      name,
+      `Property "${name}" on page ${page.id} is ${property.type}, expected ${type}`
+    );
+  }
+
+  return property as PropertyOfType<T>;
+};
+
+export const hasProperty = (page: PageResponse, name: string): boolean =>
+  name in page.properties;
+
+// For properties a database may leave out: a missing one reads as undefined
+// instead of throwing, though a property of the wrong type still does
+export const readOptional = <T>(
+  page: PageResponse,
+  name: string,
+  read: (page: PageResponse, name: string) => T
+): T | undefined => (hasProperty(page, name) ? read(page, name) : undefined);
+
+const joinPlainText = (items: Array<{ plain_text: string }>): string | undefined =>
+  items.map((item) => item.plain_text).join("") || undefined;
+
+// All rich text segments are concatenated, not just the first
+export const readText = (page: PageResponse, name: string): string | undefined =>
+  joinPlainText(readProperty(page, name, "rich_text").rich_text);
+
+export const readTitle = (page: PageResponse, name: string): string | undefined =>
+  joinPlainText(readProperty(page, name, "title").title);
+
+export const readSelect = (page: PageResponse, name: string): string | undefined =>
+  readProperty(page, name, "select").select?.name ?? undefined;
+
+export const readMultiSelect = (page: PageResponse, name: string): string[] =>
+  readProperty(page, name, "multi_select").multi_select.map((option) => option.name);
+
+export const readNumber = (page: PageResponse, name: string): number | undefined =>
+  readProperty(page, name, "number").number ?? undefined;
+
+export const readDate = (page: PageResponse, name: string): DateValue | undefined => {
+  const date = readProperty(page, name, "date").date;
+  return date ? { start: date.start, end: date.end } : undefined;
+};
+
+export const readUrl = (page: PageResponse, name: string): string | undefined =>
+  readProperty(page, name, "url").url ?? undefined;
+
+export const readPlace = (page: PageResponse, name: string): PlaceValue | undefined => {
+  const place = readProperty(page, name, "place").place;
+  return place ? { lat: place.lat, lon: place.lon, name: place.name, address: place.address } : undefined;
+};
+
+export const readRelation = (page: PageResponse, name: string): string[] =>
+  readProperty(page, name, "relation").relation.map((relation) => relation.id);
+
+export const readCheckbox = (page: PageResponse, name: string): boolean =>
+  readProperty(page, name, "checkbox").checkbox;
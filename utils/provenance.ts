@@ -0,0 +1,151 @@
+import { createHash } from "node:crypto";
+// Utils
+import { logger } from "utils/logger";
+import { readText } from "utils/properties";
+import { buildRichText } from "utils/rich-text";
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { NotionPropertyRequest } from "utils/notion";
+import type { DatabaseSchema } from "utils/schema";
+
+// Records which source filled each property, one line per property in an
+// optional "Filled by" rich text property:
+//   Ingredients | gemini/gemini-2.5-flash | 2026-10-19T18:00:00.000Z | 3f9a1c0b7e2d
+// The last part is a hash of the value written, so a value edited by hand
+// since can be told apart from the one this tool filled. Lines written before
+// the hash was added have no way to tell and are treated as edited.
+// Databases without a rich text property of that name are left as they are;
+// ensure-schema adds it for the workflows that declare PROVENANCE_SCHEMA.
+// Lines for properties filled earlier are kept, so the record builds up over
+// time.
+
+type PageResponse = PageObjectResponse;
+
+export const PROVENANCE_PROPERTY = "Filled by";
+
+// Optional, so databases without it still pass validation
+export const PROVENANCE_SCHEMA: DatabaseSchema = {
+  [PROVENANCE_PROPERTY]: { type: "rich_text", optional: true },
+};
+
+const SEPARATOR = " | ";
+
+export interface ProvenanceEntry {
+  // e.g. "gemini/gemini-2.5-flash", "TMDB" or "OMDb"
+  source: string;
+  filledAt: string;
+  // Missing on older lines and for values that cannot be compared
+  valueHash?: string;
+}
+
+export type Provenance = Record<string, ProvenanceEntry>;
+
+export const parseProvenance = (text: string): Provenance => {
+  const provenance: Provenance = {};
+
+  for (const line of text.split("\n")) {
+    const parts = line.split(SEPARATOR).map((part) => part.trim());
+    if (parts.length < 3 || parts.length > 4 || parts.some((part) => !part)) continue;
+
+    const [property, source, filledAt, valueHash] = parts;
+    provenance[property] = { source, filledAt, ...(valueHash && { valueHash }) };
+  }
+
+  return provenance;
+};
+
+export const formatProvenance = (provenance: Provenance): string =>
+  Object.entries(provenance)
+    .map(([property, { source, filledAt, valueHash }]) =>
+      [property, source, filledAt, ...(valueHash ? [valueHash] : [])].join(SEPARATOR)
+    )
+    .join("\n");
+
+const hasProvenanceProperty = (page: PageResponse): boolean =>
+  page.properties[PROVENANCE_PROPERTY]?.type === "rich_text";
+
+// Empty for pages without a "Filled by" property
+export const readProvenance = (page: PageResponse): Provenance =>
+  hasProvenanceProperty(page) ? parseProvenance(readText(page, PROVENANCE_PROPERTY) ?? "") : {};
+
+type RichTextItem = { plain_text?: string; text?: { content: string } };
+
+const COMPARABLE_TYPES = ["title", "rich_text", "number", "select", "multi_select", "url", "checkbox", "date"];
+
+// The same text for a value read from a page and for the update that wrote
+// it; undefined for types that are not compared
+const valueText = (value: unknown): string | undefined => {
+  if (!value || typeof value !== "object") return undefined;
+  const record = value as Record<string, unknown>;
+  const type = COMPARABLE_TYPES.find((candidate) => candidate in record);
+  if (!type) return undefined;
+
+  const inner = record[type];
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return (inner as RichTextItem[]).map((item) => item.plain_text ?? item.text?.content ?? "").join("");
+    case "select":
+      return (inner as { name: string } | null)?.name ?? "";
+    case "multi_select":
+      return (inner as Array<{ name: string }>).map((option) => option.name).join("\n");
+    case "date": {
+      const date = inner as { start: string; end?: string | null } | null;
+      return date ? `${date.start}/${date.end ?? ""}` : "";
+    }
+    default:
+      return inner === null || inner === undefined ? "" : String(inner);
+  }
+};
+
+export const hashPropertyValue = (value: unknown): string | undefined => {
+  const text = valueText(value);
+  return text === undefined ? undefined : createHash("sha256").update(text).digest("hex").slice(0, 12);
+};
+
+// True while the property still holds the value recorded in `entry`
+export const isUnchangedSinceFilled = (page: PageResponse, property: string, entry: ProvenanceEntry): boolean =>
+  entry.valueHash !== undefined && hashPropertyValue(page.properties[property]) === entry.valueHash;
+
+let warnedMissing = false;
+
+// Adds the "Filled by" update for the properties in `updates`. `source` is
+// either one source for all of them or a source per property; properties
+// without a source are not recorded.
+export const recordProvenance = <U>(
+  page: PageResponse,
+  updates: Record<string, U>,
+  source: string | Record<string, string>,
+  filledAt = new Date().toISOString()
+): Record<string, U | NotionPropertyRequest> => {
+  if (!hasProvenanceProperty(page)) {
+    if (!warnedMissing) {
+      warnedMissing = true;
+      logger.warn(`No "${PROVENANCE_PROPERTY}" property, so sources of filled fields are not recorded. Run ensure-schema to add it.`);
+    }
+    return updates;
+  }
+
+  const provenance = readProvenance(page);
+  let recorded = 0;
+
+  for (const property of Object.keys(updates)) {
+    const propertySource = typeof source === "string" ? source : source[property];
+    if (property === PROVENANCE_PROPERTY || !propertySource) continue;
+
+    const valueHash = hashPropertyValue(updates[property]);
+    provenance[property] = { source: propertySource, filledAt, ...(valueHash && { valueHash }) };
+    recorded++;
+  }
+
+  if (!recorded) return updates;
+
+  return {
+    ...updates,
+    [PROVENANCE_PROPERTY]: { rich_text: buildRichText(formatProvenance(provenance), { markdown: false }) },
+  };
+};
+
+// Property updates other than the provenance record itself
+export const countFilledProperties = (updates: Record<string, unknown>): number =>
+  Object.keys(updates).filter((property) => property !== PROVENANCE_PROPERTY).length;
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { withRetry } from "utils/rate-limit";
+// Types
+import type { RetryStats } from "utils/rate-limit";
+
+const API = "https://api.notion.com/v1";
+
+// Answers with each status in turn, or throws when given an error
+const scriptedFetch = (steps: Array<number | Error>) => {
+  const calls: string[] = [];
+  const fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push(`${init?.method ?? "GET"} ${input}`);
+    const step = steps[Math.min(calls.length, steps.length) - 1];
+    if (step instanceof Error) throw step;
+    return new Response("{}", { status: step });
+  }) as typeof globalThis.fetch;
+  return { fetch, calls };
+};
+
+const connectionError = (code: string) => new TypeError("fetch failed", { cause: { code } });
+
+const retrying = (baseFetch: typeof fetch) => {
+  const stats: RetryStats = { requests: 0, retries: 0, failures: 0 };
+  return withRetry(baseFetch, stats, { baseDelayMs: 1, maxDelayMs: 1, maxRetries: 3 });
+};
+
+test("reads and property updates are retried on 5xx", async () => {
+  for (const [method, path] of [
+    ["GET", "/pages/p1"],
+    ["POST", "/databases/db/query"],
+    ["PATCH", "/pages/p1"],
+    ["DELETE", "/blocks/b1"],
+  ]) {
+    const { fetch, calls } = scriptedFetch([503, 200]);
+    const response = await retrying(fetch)(`${API}${path}`, { method });
+    assert.equal(response.status, 200, `${method} ${path}`);
+    assert.equal(calls.length, 2, `${method} ${path}`);
+  }
+});
+
+test("page creates and block appends are not retried on 5xx or dropped connections", async () => {
+  for (const [method, path] of [
+    ["POST", "/pages"],
+    ["PATCH", "/blocks/b1/children"],
+  ]) {
+    const failing = scriptedFetch([502, 200]);
+    const response = await retrying(failing.fetch)(`${API}${path}`, { method });
+    assert.equal(response.status, 502);
+    assert.equal(failing.calls.length, 1);
+
+    const reset = scriptedFetch([connectionError("ECONNRESET"), 200]);
+    await assert.rejects(retrying(reset.fetch)(`${API}${path}`, { method }));
+    assert.equal(reset.calls.length, 1);
+  }
+});
+
+test("page creates are retried on 429 and when the request was never sent", async () => {
+  const limited = scriptedFetch([429, 200]);
+  assert.equal((await retrying(limited.fetch)(`${API}/pages`, { method: "POST" })).status, 200);
+  assert.equal(limited.calls.length, 2);
+
+  const refused = scriptedFetch([connectionError("ECONNREFUSED"), 200]);
+  assert.equal((await retrying(refused.fetch)(`${API}/pages`, { method: "POST" })).status, 200);
+  assert.equal(refused.calls.length, 2);
+});
@@ -0,0 +1,138 @@
+// Utils
+import { logger } from "utils/logger";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  label: string;
+}
+
+export interface RetryStats {
+  requests: number;
+  retries: number;
+  failures: number;
+}
+
+const RETRYABLE_STATUSES = new Set([409, 429, 500, 502, 503, 504]);
+
+// Connection failures that happen before anything is sent, so even writes that
+// are not idempotent can be retried safely
+const NOT_SENT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"]);
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  label: "request",
+};
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Spaces calls evenly so that at most `requestsPerSecond` start each second
+export const createThrottle = (requestsPerSecond: number): (() => Promise<void>) => {
+  const intervalMs = 1000 / requestsPerSecond;
+  let nextSlot = 0;
+
+  return async () => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  };
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const backoffDelay = (attempt: number, options: RetryOptions): number => {
+  const exponential = options.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(exponential + jitter, options.maxDelayMs);
+};
+
+const describeRequest = (input: string | URL | Request, init?: RequestInit) => {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  return { method: (init?.method ?? "GET").toUpperCase(), path: url.pathname };
+};
+
+// Creating pages and appending blocks are not idempotent: after a 5xx or a
+// dropped connection the write may already have happened, and repeating it
+// would duplicate it. Database queries are POSTs but only read.
+const isIdempotent = ({ method, path }: { method: string; path: string }): boolean => {
+  if (method === "POST") return /\/databases\/[^/]+\/query$/.test(path) || path.endsWith("/search");
+  if (method === "PATCH") return !path.endsWith("/children");
+  return true;
+};
+
+const errorCode = (error: unknown): string | undefined => {
+  const cause = error instanceof Error ? (error.cause as { code?: unknown } | undefined) : undefined;
+  const code = (error as { code?: unknown } | undefined)?.code ?? cause?.code;
+  return typeof code === "string" ? code : undefined;
+};
+
+// Wraps a fetch so 429s, transient 5xx responses and network errors are retried
+// with exponential backoff, honouring Retry-After when the server sends one.
+// Writes that are not idempotent are only retried on 429 or when the
+// connection failed before the request went out.
+export const withRetry = (
+  baseFetch: typeof fetch,
+  stats: RetryStats,
+  overrides: Partial<RetryOptions> = {}
+): typeof fetch => {
+  const options = { ...DEFAULT_RETRY_OPTIONS, ...overrides };
+
+  return async (input, init) => {
+    const request = describeRequest(input, init);
+    const idempotent = isIdempotent(request);
+    const isRetryable = (status: number) => (idempotent ? RETRYABLE_STATUSES.has(status) : status === 429);
+
+    for (let attempt = 1; ; attempt++) {
+      stats.requests++;
+      const isLastAttempt = attempt > options.maxRetries;
+      let delayMs: number;
+      let reason: Record<string, unknown>;
+
+      try {
+        const response = await baseFetch(input, init);
+        if (!isRetryable(response.status) || isLastAttempt) {
+          if (!response.ok && RETRYABLE_STATUSES.has(response.status)) stats.failures++;
+          return response;
+        }
+
+        delayMs =
+          parseRetryAfter(response.headers.get("retry-after")) ?? backoffDelay(attempt, options);
+        reason = { status: response.status };
+      } catch (error) {
+        const code = errorCode(error);
+        if (isLastAttempt || (!idempotent && !(code && NOT_SENT_ERROR_CODES.has(code)))) {
+          stats.failures++;
+          throw error;
+        }
+        delayMs = backoffDelay(attempt, options);
+        reason = { error: error instanceof Error ? error.message : String(error) };
+      }
+
+      stats.retries++;
+      logger.warn(`Retrying ${options.label}`, {
+        ...request,
+        ...reason,
+        attempt,
+        maxRetries: options.maxRetries,
+        delayMs: Math.round(delayMs),
+      });
+      await sleep(delayMs);
+    }
+  };
+};
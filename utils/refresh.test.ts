@@ -0,0 +1,111 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { propertyBuilders } from "utils/parsing";
+import { formatProvenance, hashPropertyValue } from "utils/provenance";
+import { createRefreshPlan } from "utils/refresh";
+// Types
+import type { Client } from "@notionhq/client";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { ProvenanceEntry } from "utils/provenance";
+
+interface PageOptions {
+  cuisine?: string;
+  // What "Filled by" records for Cuisine, if anything
+  filled?: ProvenanceEntry;
+  flagged?: boolean;
+}
+
+const mealPage = (id: string, name: string, { cuisine = "Thai", filled, flagged = true }: PageOptions) =>
+  ({
+    object: "page",
+    id,
+    properties: {
+      Name: { type: "title", title: [{ plain_text: name }] },
+      Cuisine: { type: "rich_text", rich_text: [{ plain_text: cuisine }] },
+      Refresh: { type: "checkbox", checkbox: flagged },
+      "Filled by": {
+        type: "rich_text",
+        rich_text: filled ? [{ plain_text: formatProvenance({ Cuisine: filled }) }] : [],
+      },
+    },
+  }) as unknown as PageObjectResponse;
+
+// As recorded when the tool wrote `value`
+const filledWith = (value: string, filledAt = "2026-10-01T00:00:00.000Z"): ProvenanceEntry => ({
+  source: "fake/test",
+  filledAt,
+  valueHash: hashPropertyValue(propertyBuilders.richText(value)),
+});
+
+const recordingClient = () => {
+  const cleared: string[] = [];
+  const notion = {
+    pages: {
+      update: async ({ page_id }: { page_id: string }) => {
+        cleared.push(page_id);
+        return {};
+      },
+    },
+  } as unknown as Client;
+  return { notion, cleared };
+};
+
+test("only refreshed pages with refreshable fields lose their flag", async () => {
+  const pages = [
+    mealPage("p1", "Curry", { filled: filledWith("Thai") }),
+    // Same name, but not refreshed this run
+    mealPage("p2", "Curry", { filled: filledWith("Thai") }),
+    // Nothing this tool filled, so nothing to refresh
+    mealPage("p3", "Stew", {}),
+  ];
+  const refresh = createRefreshPlan(["Cuisine"], {});
+  const { notion, cleared } = recordingClient();
+
+  await refresh.clearFlags(notion, pages, new Set(["p1", "p3"]));
+
+  assert.deepEqual(refresh.fieldsToRefresh(pages[2]), []);
+  assert.deepEqual(cleared, ["p1"]);
+});
+
+test("nothing is cleared when no page was refreshed", async () => {
+  const refresh = createRefreshPlan(["Cuisine"], {});
+  const { notion, cleared } = recordingClient();
+
+  await refresh.clearFlags(notion, [mealPage("p1", "Curry", { filled: filledWith("Thai") })], new Set());
+
+  assert.deepEqual(cleared, []);
+});
+
+test("a value corrected by hand since it was filled is not refreshed", () => {
+  const refresh = createRefreshPlan(["Cuisine"], {});
+
+  assert.deepEqual(refresh.fieldsToRefresh(mealPage("p1", "Curry", { filled: filledWith("Thai") })), ["Cuisine"]);
+  assert.deepEqual(
+    refresh.fieldsToRefresh(mealPage("p2", "Curry", { cuisine: "Malaysian", filled: filledWith("Thai") })),
+    []
+  );
+});
+
+test("a record without a value hash cannot be checked and is not refreshed", () => {
+  const refresh = createRefreshPlan(["Cuisine"], {});
+  const legacy = { source: "fake/test", filledAt: "2026-10-01T00:00:00.000Z" };
+
+  assert.deepEqual(refresh.fieldsToRefresh(mealPage("p1", "Curry", { filled: legacy })), []);
+});
+
+test("fields filled before the age limit are refreshed without a flag", () => {
+  const refresh = createRefreshPlan(["Cuisine"], { maxAgeDays: 30, now: new Date("2026-10-19T00:00:00.000Z") });
+
+  const old = mealPage("p1", "Curry", { flagged: false, filled: filledWith("Thai", "2026-08-01T00:00:00.000Z") });
+  const recent = mealPage("p2", "Curry", { flagged: false, filled: filledWith("Thai", "2026-10-10T00:00:00.000Z") });
+  const edited = mealPage("p3", "Curry", {
+    flagged: false,
+    cuisine: "Malaysian",
+    filled: filledWith("Thai", "2026-08-01T00:00:00.000Z"),
+  });
+
+  assert.deepEqual(refresh.fieldsToRefresh(old), ["Cuisine"]);
+  assert.deepEqual(refresh.fieldsToRefresh(recent), []);
+  assert.deepEqual(refresh.fieldsToRefresh(edited), []);
+});
@@ -0,0 +1,106 @@
+import type { Client } from "@notionhq/client";
+// Utils
+import { runBatch } from "utils/batch";
+import { logger } from "utils/logger";
+import { extractTitle } from "utils/notion";
+import { isUnchangedSinceFilled, readProvenance } from "utils/provenance";
+// Types
+import type { DatabaseSchema } from "utils/schema";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+
+// Re-annotates fields that are already filled. A page is refreshed when its
+// "Refresh" checkbox is ticked, or when AI_REFRESH_MAX_AGE_DAYS is set and a
+// field is older than that. Only fields whose "Filled by" record matches the
+// value they still hold are overwritten, so a value this tool wrote and
+// someone then corrected by hand is kept. A hand-typed value that happens to
+// equal the one recorded cannot be told apart and is refreshed.
+// Incremental syncs only see edited pages, so age-based refreshes happen on
+// the periodic full sync.
+
+type PageResponse = PageObjectResponse;
+
+export const REFRESH_PROPERTY = "Refresh";
+
+export const REFRESH_SCHEMA: DatabaseSchema = {
+  [REFRESH_PROPERTY]: { type: "checkbox", optional: true },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RefreshOptions {
+  // Fields filled longer ago than this are refreshed; off when undefined
+  maxAgeDays?: number;
+  now?: Date;
+}
+
+export interface RefreshPlan {
+  // Filled fields the next annotation may overwrite
+  fieldsToRefresh: (page: PageResponse) => string[];
+  isFlagged: (page: PageResponse) => boolean;
+  // Unticks pages in refreshedIds; flagged pages with nothing to refresh keep
+  // the tick and are warned about
+  clearFlags: (notion: Client, pages: PageResponse[], refreshedIds: ReadonlySet<string>) => Promise<void>;
+}
+
+export const getRefreshMaxAgeDays = (): number | undefined => {
+  const raw = process.env.AI_REFRESH_MAX_AGE_DAYS;
+  if (raw === undefined || raw === "") return undefined;
+
+  const days = Number(raw);
+  if (Number.isNaN(days) || days <= 0) {
+    throw new Error(`AI_REFRESH_MAX_AGE_DAYS must be a positive number, got "${raw}"`);
+  }
+  return days;
+};
+
+const isFlagged = (page: PageResponse): boolean => {
+  const property = page.properties[REFRESH_PROPERTY];
+  return property?.type === "checkbox" && property.checkbox;
+};
+
+export const createRefreshPlan = (
+  properties: readonly string[],
+  options: RefreshOptions = { maxAgeDays: getRefreshMaxAgeDays() }
+): RefreshPlan => {
+  const { maxAgeDays, now = new Date() } = options;
+  const cutoff = maxAgeDays === undefined ? undefined : now.getTime() - maxAgeDays * DAY_MS;
+
+  const fieldsToRefresh = (page: PageResponse): string[] => {
+    const flagged = isFlagged(page);
+    if (!flagged && cutoff === undefined) return [];
+
+    const provenance = readProvenance(page);
+    return properties.filter((property) => {
+      const entry = provenance[property];
+      if (!entry || !isUnchangedSinceFilled(page, property, entry)) return false;
+      return flagged || (cutoff !== undefined && Date.parse(entry.filledAt) < cutoff);
+    });
+  };
+
+  const clearFlags = async (
+    notion: Client,
+    pages: PageResponse[],
+    refreshedIds: ReadonlySet<string>
+  ): Promise<void> => {
+    const refreshed: PageResponse[] = [];
+    for (const page of pages.filter(isFlagged)) {
+      if (!fieldsToRefresh(page).length) {
+        logger.warn(`"${REFRESH_PROPERTY}" is ticked but no field still holds a value this tool filled`, {
+          page: extractTitle(page),
+          pageId: page.id,
+        });
+      } else if (refreshedIds.has(page.id)) {
+        refreshed.push(page);
+      }
+    }
+    if (!refreshed.length) return;
+
+    await runBatch(
+      refreshed,
+      (page) => notion.pages.update({ page_id: page.id, properties: { [REFRESH_PROPERTY]: { checkbox: false } } }),
+      { label: "Clear refresh flags", describe: extractTitle }
+    );
+  };
+
+  return { fieldsToRefresh, isFlagged, clearFlags };
+};
@@ -0,0 +1,115 @@
+// Utils
+import { builderType } from "utils/schema";
+// Types
+import type { PropertyBuilder } from "utils/parsing";
+import type { DatabaseSchema } from "utils/schema";
+
+// Describes the JSON a workflow expects back from the model. It is derived
+// from FIELD_MAPPINGS, sent to the provider as a structured-output schema and
+// used to validate each returned item with field-level errors.
+
+export type ResponseFieldType = "string" | "number";
+
+export interface ResponseField {
+  type: ResponseFieldType;
+  description?: string;
+  // Allowed values, for select properties with known options
+  enum?: string[];
+}
+
+export interface ResponseSchema<T> {
+  // Name of the array holding the items, e.g. "meals"
+  collection: string;
+  fields: Record<keyof T & string, ResponseField>;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+// Echoed back by the model so results can be matched to pages
+export const ITEM_KEY_FIELD = "key";
+
+const DESCRIPTIONS: Partial<Record<string, string>> = {
+  multi_select: "Comma-separated list of values",
+  select: "A single value",
+};
+
+export const responseSchemaFromFieldMappings = <T>(
+  collection: string,
+  mappings: ReadonlyArray<readonly [string, keyof T, PropertyBuilder]>,
+  databaseSchema: DatabaseSchema = {}
+): ResponseSchema<T> => ({
+  collection,
+  fields: Object.fromEntries(
+    mappings.map(([property, dataKey, builder]) => {
+      const propertyType = builderType(builder);
+      const options = databaseSchema[property]?.options;
+      const field: ResponseField = {
+        type: propertyType === "number" ? "number" : "string",
+        description: [`Notion property "${property}"`, DESCRIPTIONS[propertyType]].filter(Boolean).join(". "),
+        ...(propertyType === "select" && options?.length && { enum: options }),
+      };
+      return [dataKey, field];
+    })
+  ) as Record<keyof T & string, ResponseField>,
+});
+
+export const toJsonSchema = <T>(schema: ResponseSchema<T>): JsonSchema => {
+  const fieldNames = Object.keys(schema.fields);
+
+  return {
+    type: "object",
+    properties: {
+      [schema.collection]: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            [ITEM_KEY_FIELD]: { type: "string", description: "The item's key from the prompt, without brackets" },
+            ...schema.fields,
+          },
+          required: [ITEM_KEY_FIELD, ...fieldNames],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: [schema.collection],
+    additionalProperties: false,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describeValue = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : typeof value;
+
+// Pulls the item array out of a parsed response; throws if it is missing
+export const extractResponseItems = <T>(schema: ResponseSchema<T>, response: unknown): unknown[] => {
+  const items = isRecord(response) ? response[schema.collection] : undefined;
+  if (!Array.isArray(items)) {
+    throw new Error(`Response missing '${schema.collection}' array`);
+  }
+  return items;
+};
+
+// Returns one message per problem; an empty list means the item is valid
+export const validateResponseItem = <T>(schema: ResponseSchema<T>, item: unknown): string[] => {
+  if (!isRecord(item)) return [`expected an object, got ${describeValue(item)}`];
+
+  const errors: string[] = [];
+  for (const [name, field] of Object.entries<ResponseField>(schema.fields)) {
+    const value = item[name];
+
+    if (value === undefined || value === null) {
+      errors.push(`"${name}" is missing`);
+    } else if (field.type === "number" ? typeof value !== "number" || !Number.isFinite(value) : typeof value !== "string") {
+      errors.push(`"${name}" must be a ${field.type}, got ${describeValue(value)}`);
+    } else if (field.enum && !field.enum.includes(value as string)) {
+      errors.push(`"${name}" must be one of ${field.enum.join(", ")}, got "${value}"`);
+    }
+  }
+  return errors;
+};
+
+export const isValidResponseItem = <T>(schema: ResponseSchema<T>, item: unknown): item is T =>
+  validateResponseItem(schema, item).length === 0;
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { createNotionClient } from "utils/notion";
+import { createFakeNotion } from "utils/notion-fake";
+import { useFakeNotion } from "utils/notion-gateway";
+import { propertyBuilders } from "utils/parsing";
+import { REVIEW_QUEUE_SCHEMA, createReviewQueue } from "utils/review-queue";
+// Types
+import type { FakeFailureSeed, FakeNotion } from "utils/notion-fake";
+
+interface Meal {
+  cuisine: string;
+}
+
+const text = (content: string) => ({ rich_text: [{ text: { content } }] });
+
+const seedQueue = (failures: FakeFailureSeed[] = []): FakeNotion => {
+  const fake = createFakeNotion({
+    databases: [
+      {
+        id: "queue",
+        properties: Object.fromEntries(
+          Object.entries(REVIEW_QUEUE_SCHEMA).map(([name, { type }]) => [name, { type }])
+        ),
+      },
+    ],
+    pages: [
+      {
+        id: "row",
+        parent: { database_id: "queue" },
+        properties: {
+          Name: { title: [{ text: { content: "Curry: Cuisine" } }] },
+          Workflow: { select: { name: "meals" } },
+          Property: text("Cuisine"),
+          "Suggested value": text("Thai"),
+          "Page ID": text("meal"),
+          Approve: { checkbox: true },
+          Reject: { checkbox: false },
+        },
+      },
+    ],
+    failures,
+  });
+  useFakeNotion(fake);
+  return fake;
+};
+
+const applyQueue = async () => {
+  process.env.AI_REVIEW = "1";
+  const queue = await createReviewQueue<Meal>({
+    notion: createNotionClient("test"),
+    token: "test",
+    databaseId: "queue",
+    workflow: "meals",
+    fieldMappings: [["Cuisine", "cuisine", propertyBuilders.richText]],
+  });
+  delete process.env.AI_REVIEW;
+  assert.ok(queue);
+
+  const applied: Array<Partial<Meal>> = [];
+  const report = await queue.applyReviewed(async (_pageId, _updates, values) => {
+    applied.push(values);
+  });
+  return { report, applied };
+};
+
+test("an approved suggestion is applied and its row archived", async () => {
+  const fake = seedQueue();
+  const { report, applied } = await applyQueue();
+
+  assert.deepEqual(applied, [{ cuisine: "Thai" }]);
+  assert.deepEqual(report, { applied: 1, rejected: 0, failed: 0, unarchived: 0 });
+  assert.equal(fake.getPage("row")?.archived, true);
+});
+
+test("a row that cannot be archived is not counted as applied or failed", async () => {
+  const fake = seedQueue([{ method: "PATCH", path: "/pages/row", status: 400 }]);
+  const { report, applied } = await applyQueue();
+
+  assert.deepEqual(applied, [{ cuisine: "Thai" }]);
+  assert.deepEqual(report, { applied: 0, rejected: 0, failed: 0, unarchived: 1 });
+  assert.equal(fake.getPage("row")?.archived, false);
+});
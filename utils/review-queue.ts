@@ -0,0 +1,195 @@
+import type { Client } from "@notionhq/client";
+// Utils
+import { logger } from "utils/logger";
+import { extractTitle } from "utils/notion";
+import { queryDatabase, where } from "utils/notion-gateway";
+import { readCheckbox, readText } from "utils/properties";
+import { recordProvenance } from "utils/provenance";
+import { buildRichText } from "utils/rich-text";
+import { builderType, validateSchema } from "utils/schema";
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { NotionPropertyRequest } from "utils/notion";
+import type { PropertyBuilder } from "utils/parsing";
+import type { DatabaseSchema } from "utils/schema";
+
+// Opt-in review mode (AI_REVIEW=1 plus REVIEW_QUEUE_DATABASE_ID). Instead of
+// writing AI output straight into a database, each proposed value becomes a
+// row in a "Pending suggestions" database. Ticking Approve applies the
+// (possibly edited) value through the workflow's FIELD_MAPPINGS builders on
+// the next run. Rejected rows stay in the queue so the model is not asked for
+// that property again; delete the row to let it try once more.
+
+type PageResponse = PageObjectResponse;
+
+export const REVIEW_QUEUE_SCHEMA: DatabaseSchema = {
+  Name: { type: "title" },
+  Workflow: { type: "select" },
+  Property: { type: "rich_text" },
+  "Suggested value": { type: "rich_text" },
+  "Page ID": { type: "rich_text" },
+  Page: { type: "url" },
+  Source: { type: "rich_text" },
+  Approve: { type: "checkbox" },
+  Reject: { type: "checkbox" },
+};
+
+export type FieldMapping<T> = readonly [string, keyof T, PropertyBuilder];
+
+export interface ReviewQueueOptions<T> {
+  notion: Client;
+  token: string;
+  // Defaults to REVIEW_QUEUE_DATABASE_ID
+  databaseId?: string;
+  // Tells this workflow's rows apart from others sharing the queue
+  workflow: string;
+  fieldMappings: ReadonlyArray<FieldMapping<T>>;
+  // The model making suggestions; recorded in "Filled by" once applied
+  source?: string;
+}
+
+export interface ApplyReviewedReport {
+  applied: number;
+  // Rejected rows kept in the queue
+  rejected: number;
+  failed: number;
+  // Applied, but the row could not be archived so it is applied again next run
+  unarchived: number;
+}
+
+export interface ReviewQueue<T> {
+  // True while a suggestion for this property awaits review or was rejected;
+  // such properties are not sent to the model again
+  isHeld: (pageId: string, property: string) => boolean;
+  stage: (page: PageResponse, updates: Record<string, NotionPropertyRequest>, data: T) => Promise<void>;
+  applyReviewed: (
+    updatePage: (pageId: string, updates: Record<string, NotionPropertyRequest>, values: Partial<T>) => Promise<void>
+  ) => Promise<ApplyReviewedReport>;
+}
+
+export const isReviewMode = (): boolean =>
+  ["1", "true", "yes"].includes((process.env.AI_REVIEW ?? "").toLowerCase());
+
+const suggestionKey = (pageId: string, property: string): string => `${pageId}:${property}`;
+
+// Suggestions are stored as text, so numbers are parsed back before building
+const parseSuggestedValue = (builder: PropertyBuilder, text: string): string | number => {
+  if (builderType(builder) !== "number") return text;
+  const value = Number(text.trim());
+  if (!text.trim() || Number.isNaN(value)) throw new Error(`"${text}" is not a number`);
+  return value;
+};
+
+// Resolves to undefined when review mode is off
+export const createReviewQueue = async <T>(options: ReviewQueueOptions<T>): Promise<ReviewQueue<T> | undefined> => {
+  const { notion, token, workflow, fieldMappings, source, databaseId = process.env.REVIEW_QUEUE_DATABASE_ID } = options;
+
+  if (!isReviewMode()) return undefined;
+  if (!databaseId) {
+    throw new Error("AI_REVIEW is set but REVIEW_QUEUE_DATABASE_ID is not defined");
+  }
+
+  await validateSchema(token, databaseId, REVIEW_QUEUE_SCHEMA, "review queue");
+  const rows = await queryDatabase(token, databaseId)
+    .filter(where.select("Workflow").equals(workflow))
+    .all();
+
+  const rowKey = (row: PageResponse) => suggestionKey(readText(row, "Page ID") ?? "", readText(row, "Property") ?? "");
+
+  // Reject wins when both boxes are ticked
+  const rejectedRows = rows.filter((row) => readCheckbox(row, "Reject"));
+  const approved = rows.filter((row) => readCheckbox(row, "Approve") && !rejectedRows.includes(row));
+  const pending = new Set(
+    rows.filter((row) => !approved.includes(row) && !rejectedRows.includes(row)).map(rowKey)
+  );
+  const rejected = new Set(rejectedRows.map(rowKey));
+
+  logger.info("Loaded review queue", {
+    workflow,
+    pending: pending.size,
+    approved: approved.length,
+    rejected: rejected.size,
+  });
+
+  const stage: ReviewQueue<T>["stage"] = async (page, updates, data) => {
+    const title = extractTitle(page);
+
+    for (const [property, dataKey] of fieldMappings) {
+      if (!(property in updates)) continue;
+
+      await notion.pages.create({
+        parent: { database_id: databaseId },
+        properties: {
+          Name: { title: buildRichText(`${title}: ${property}`, { markdown: false }) },
+          Workflow: { select: { name: workflow } },
+          Property: { rich_text: buildRichText(property, { markdown: false }) },
+          // Kept verbatim so the value round-trips exactly when applied
+          "Suggested value": { rich_text: buildRichText(String(data[dataKey]), { markdown: false }) },
+          "Page ID": { rich_text: buildRichText(page.id, { markdown: false }) },
+          Page: { url: page.url },
+          Source: { rich_text: buildRichText(source ?? "", { markdown: false }) },
+          Approve: { checkbox: false },
+          Reject: { checkbox: false },
+        },
+      });
+      pending.add(suggestionKey(page.id, property));
+    }
+  };
+
+  const applyReviewed: ReviewQueue<T>["applyReviewed"] = async (updatePage) => {
+    const report: ApplyReviewedReport = { applied: 0, rejected: rejectedRows.length, failed: 0, unarchived: 0 };
+
+    for (const row of approved) {
+      const property = readText(row, "Property") ?? "";
+      const pageId = readText(row, "Page ID") ?? "";
+
+      try {
+        const mapping = fieldMappings.find(([name]) => name === property);
+        if (!mapping) throw new Error(`"${property}" is not a field this workflow fills`);
+
+        const [, dataKey, builder] = mapping;
+        const value = parseSuggestedValue(builder, readText(row, "Suggested value") ?? "");
+        let updates: Record<string, NotionPropertyRequest> = { [property]: builder(value) };
+        const suggestedBy = readText(row, "Source") ?? source;
+        if (suggestedBy) {
+          const page = (await notion.pages.retrieve({ page_id: pageId })) as PageResponse;
+          updates = recordProvenance(page, updates, `${suggestedBy}, reviewed`);
+        }
+        await updatePage(pageId, updates, { [dataKey]: value } as Partial<T>);
+      } catch (err) {
+        // Left in the queue so it can be fixed and picked up next run
+        report.failed++;
+        logger.warn("Could not apply suggestion", {
+          property,
+          pageId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        continue;
+      }
+
+      try {
+        await notion.pages.update({ page_id: row.id, archived: true });
+        report.applied++;
+      } catch (err) {
+        report.unarchived++;
+        logger.warn("Applied suggestion but could not archive its review row", {
+          property,
+          pageId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    if (approved.length) logger.info("Processed reviewed suggestions", { workflow, ...report });
+    return report;
+  };
+
+  return {
+    isHeld: (pageId, property) => {
+      const key = suggestionKey(pageId, property);
+      return pending.has(key) || rejected.has(key);
+    },
+    stage,
+    applyReviewed,
+  };
+};
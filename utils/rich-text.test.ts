@@ -0,0 +1,108 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { MAX_RICH_TEXT_ITEMS, MAX_SEGMENT_LENGTH, buildRichText, splitText } from "utils/rich-text";
+// Types
+import type { RichTextRequest } from "utils/rich-text";
+
+const words = (length: number): string => "lorem ipsum ".repeat(Math.ceil(length / 12)).slice(0, length);
+
+const contentOf = (items: RichTextRequest[]): string => items.map((item) => item.text.content).join("");
+
+test("long text is split at word breaks into chunks within the limit", () => {
+  const text = words(4500);
+  const chunks = splitText(text);
+
+  assert.equal(chunks.length, 3);
+  assert.ok(chunks.every((chunk) => chunk.length <= MAX_SEGMENT_LENGTH));
+  assert.ok(chunks.slice(0, -1).every((chunk) => chunk.endsWith(" ")));
+  assert.equal(chunks.join(""), text);
+});
+
+test("paragraph breaks are preferred over word breaks", () => {
+  const text = `${words(1500)}\n\n${words(1500)}`;
+  const chunks = splitText(text);
+
+  assert.deepEqual(
+    chunks.map((chunk) => chunk.length),
+    [1502, 1500]
+  );
+  assert.ok(chunks[0].endsWith("\n\n"));
+});
+
+test("unbroken text is cut hard at the limit", () => {
+  assert.deepEqual(
+    splitText("x".repeat(4500)).map((chunk) => chunk.length),
+    [2000, 2000, 500]
+  );
+});
+
+test("a 4500 character string becomes three rich text items", () => {
+  const text = words(4500);
+  const items = buildRichText(text);
+
+  assert.equal(items.length, 3);
+  assert.ok(items.every((item) => item.text.content.length <= MAX_SEGMENT_LENGTH));
+  assert.ok(items.every((item) => item.annotations === undefined));
+  assert.equal(contentOf(items), text);
+});
+
+test("inline markdown becomes annotations and links", () => {
+  assert.deepEqual(buildRichText("**Bold** and _soft_ `code` [docs](https://example.com)."), [
+    { text: { content: "Bold" }, annotations: { bold: true } },
+    { text: { content: " and " } },
+    { text: { content: "soft" }, annotations: { italic: true } },
+    { text: { content: " " } },
+    { text: { content: "code" }, annotations: { code: true } },
+    { text: { content: " " } },
+    { text: { content: "docs", link: { url: "https://example.com" } } },
+    { text: { content: "." } },
+  ]);
+});
+
+test("markdown can be turned off for text with literal markers", () => {
+  assert.deepEqual(buildRichText("snake_case_name and 2 * 3 * 4", { markdown: false }), [
+    { text: { content: "snake_case_name and 2 * 3 * 4" } },
+  ]);
+});
+
+test("bold text across a split boundary stays bold on both sides", () => {
+  const bold = words(2500).trim();
+  const items = buildRichText(`Intro **${bold}** outro`);
+
+  assert.deepEqual(
+    items.map((item) => Boolean(item.annotations?.bold)),
+    [false, true, true, false]
+  );
+  assert.ok(items.every((item) => item.text.content.length <= MAX_SEGMENT_LENGTH));
+  assert.equal(contentOf(items), `Intro ${bold} outro`);
+});
+
+test("a link across a split boundary keeps its url on both sides", () => {
+  const linkText = words(2100).trim();
+  const items = buildRichText(`See [${linkText}](https://example.com/guide)`);
+
+  assert.equal(items.length, 3);
+  assert.equal(items[0].text.link, undefined);
+  assert.deepEqual(
+    items.slice(1).map((item) => item.text.link?.url),
+    ["https://example.com/guide", "https://example.com/guide"]
+  );
+  assert.equal(contentOf(items), `See ${linkText}`);
+});
+
+test("formatting is dropped when it would need more than 100 items", () => {
+  const text = Array.from({ length: 60 }, (_, i) => `**w${i}** x`).join(" ");
+  const items = buildRichText(text);
+
+  assert.equal(items.length, 1);
+  assert.equal(items[0].annotations, undefined);
+  assert.equal(contentOf(items), text.replaceAll("**", ""));
+});
+
+test("text longer than 100 items is truncated", () => {
+  const items = buildRichText("x".repeat(MAX_RICH_TEXT_ITEMS * MAX_SEGMENT_LENGTH + 500));
+
+  assert.equal(items.length, MAX_RICH_TEXT_ITEMS);
+  assert.ok(items.every((item) => item.text.content.length === MAX_SEGMENT_LENGTH));
+});
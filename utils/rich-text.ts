@@ -0,0 +1,139 @@
+// Utils
+import { logger } from "utils/logger";
+
+// Notion rejects rich text objects longer than 2000 characters and arrays with
+// more than 100 objects, and it shows Markdown literally. These helpers turn a
+// plain (optionally Markdown-formatted) string into valid rich text.
+
+export const MAX_SEGMENT_LENGTH = 2000;
+export const MAX_RICH_TEXT_ITEMS = 100;
+
+export interface RichTextAnnotations {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export interface RichTextRequest {
+  type?: "text";
+  text: { content: string; link?: { url: string } | null };
+  annotations?: RichTextAnnotations;
+}
+
+interface Segment {
+  content: string;
+  annotations: RichTextAnnotations;
+  url?: string;
+}
+
+export interface RichTextOptions {
+  // Set to false for text that may legitimately contain `*` or `_`
+  markdown?: boolean;
+}
+
+// 1: **bold**, 2: `code`, 3-4: [text](url), 5-6: _italic_ or *italic*
+const INLINE_MARKDOWN =
+  /\*\*(.+?)\*\*|`([^`\n]+)`|\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)|(?<![\w*_])([_*])(?![\s_*])(.+?)(?<!\s)\5(?![\w*_])/g;
+
+const parseInline = (
+  text: string,
+  annotations: RichTextAnnotations = {},
+  url?: string
+): Segment[] => {
+  const segments: Segment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_MARKDOWN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ content: text.slice(last, index), annotations, url });
+
+    const [, bold, code, linkText, linkUrl, , italic] = match;
+    if (bold !== undefined) {
+      segments.push(...parseInline(bold, { ...annotations, bold: true }, url));
+    } else if (code !== undefined) {
+      segments.push({ content: code, annotations: { ...annotations, code: true }, url });
+    } else if (linkText !== undefined) {
+      segments.push(...parseInline(linkText, annotations, linkUrl));
+    } else {
+      segments.push(...parseInline(italic, { ...annotations, italic: true }, url));
+    }
+
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) segments.push({ content: text.slice(last), annotations, url });
+  return segments;
+};
+
+const BOUNDARIES = ["\n\n", "\n", ". ", " "];
+
+// Splits at the last paragraph, line, sentence or word break that keeps each
+// chunk within `max`, falling back to a hard cut for unbroken text
+export const splitText = (text: string, max = MAX_SEGMENT_LENGTH): string[] => {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > max) {
+    const window = rest.slice(0, max);
+    let cut = max;
+
+    for (const boundary of BOUNDARIES) {
+      const index = window.lastIndexOf(boundary);
+      if (index >= max / 2) {
+        cut = index + boundary.length;
+        break;
+      }
+    }
+
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+
+  if (rest) chunks.push(rest);
+  return chunks;
+};
+
+const sameFormatting = (a: Segment, b: Segment): boolean =>
+  a.url === b.url &&
+  Boolean(a.annotations.bold) === Boolean(b.annotations.bold) &&
+  Boolean(a.annotations.italic) === Boolean(b.annotations.italic) &&
+  Boolean(a.annotations.code) === Boolean(b.annotations.code);
+
+const toRequest = ({ content, annotations, url }: Segment): RichTextRequest => ({
+  text: { content, ...(url && { link: { url } }) },
+  ...(Object.values(annotations).some(Boolean) && { annotations }),
+});
+
+const toRequests = (segments: Segment[]): RichTextRequest[] =>
+  segments
+    .filter((segment) => segment.content)
+    .reduce<Segment[]>((merged, segment) => {
+      const previous = merged[merged.length - 1];
+      if (previous && sameFormatting(previous, segment)) {
+        previous.content += segment.content;
+      } else {
+        merged.push({ ...segment });
+      }
+      return merged;
+    }, [])
+    .flatMap((segment) =>
+      splitText(segment.content).map((content) => toRequest({ ...segment, content }))
+    );
+
+export const buildRichText = (text: string, options: RichTextOptions = {}): RichTextRequest[] => {
+  const { markdown = true } = options;
+  const segments = markdown ? parseInline(text) : [{ content: text, annotations: {} }];
+  const formatted = toRequests(segments);
+  if (formatted.length <= MAX_RICH_TEXT_ITEMS) return formatted;
+
+  // Too many formatted runs; keep the text and drop the formatting
+  const plainText = segments.map((segment) => segment.content).join("");
+  const plain = toRequests([{ content: plainText, annotations: {} }]);
+  if (plain.length > MAX_RICH_TEXT_ITEMS) {
+    logger.warn("Rich text is too long for one property and was truncated", {
+      length: text.length,
+      kept: MAX_RICH_TEXT_ITEMS * MAX_SEGMENT_LENGTH,
+    });
+  }
+  return plain.slice(0, MAX_RICH_TEXT_ITEMS);
+};
@@ -0,0 +1,15 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+// Utils
+import { planSchemaChanges } from "utils/schema";
+
+test("a differently named title property is reported, not renamed", () => {
+  const plan = planSchemaChanges(
+    { Title: { type: "title" } },
+    { Name: { type: "title" }, Notes: { type: "rich_text" } }
+  );
+
+  assert.deepEqual(plan.properties, { Notes: { rich_text: {} } });
+  assert.deepEqual(plan.added, ["Notes"]);
+  assert.deepEqual(plan.manual, ['title property "Title" should be renamed to "Name"']);
+});
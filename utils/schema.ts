@@ -0,0 +1,231 @@
+// Utils
+import { logger } from "utils/logger";
+import { notionRequest } from "utils/notion-gateway";
+// Types
+import type { PropertyBuilder } from "utils/parsing";
+
+export type SchemaPropertyType =
+  | "title"
+  | "rich_text"
+  | "number"
+  | "select"
+  | "multi_select"
+  | "date"
+  | "url"
+  | "checkbox"
+  | "relation"
+  | "place"
+  | "files";
+
+export interface SchemaProperty {
+  type: SchemaPropertyType;
+  // Select / multi-select options to pre-create when provisioning
+  options?: string[];
+  // Workflows cope without it, so only a wrong type fails validation;
+  // ensure-schema still creates it
+  optional?: boolean;
+}
+
+export type DatabaseSchema = Record<string, SchemaProperty>;
+
+export interface SchemaIssue {
+  property: string;
+  expected: SchemaPropertyType;
+  actual: string | null;
+}
+
+interface SelectOption {
+  id?: string;
+  name: string;
+  color?: string;
+}
+
+interface DatabasePropertyResponse {
+  type: string;
+  select?: { options: SelectOption[] };
+  multi_select?: { options: SelectOption[] };
+}
+
+interface DatabaseResponse {
+  id: string;
+  title?: Array<{ plain_text: string }>;
+  properties: Record<string, DatabasePropertyResponse>;
+}
+
+export interface SchemaChangePlan {
+  // Keyed by property name, in the shape the database update endpoint expects
+  properties: Record<string, Record<string, unknown>>;
+  added: string[];
+  options: Array<{ property: string; added: string[] }>;
+  // Problems that need a human, e.g. a property with the wrong type
+  manual: string[];
+}
+
+export class SchemaValidationError extends Error {
+  constructor(
+    readonly databaseId: string,
+    readonly issues: SchemaIssue[]
+  ) {
+    super(`Database ${databaseId} does not match the expected schema (${issues.length} problem(s))`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+// Each builder produces a request keyed by its property type, e.g. `{ rich_text: [...] }`
+export const builderType = (builder: PropertyBuilder): SchemaPropertyType =>
+  Object.keys(builder(""))[0] as SchemaPropertyType;
+
+export const schemaFromFieldMappings = (
+  mappings: ReadonlyArray<readonly [string, unknown, PropertyBuilder]>
+): DatabaseSchema =>
+  Object.fromEntries(mappings.map(([name, , builder]) => [name, { type: builderType(builder) }]));
+
+export const retrieveDatabase = (token: string, databaseId: string): Promise<DatabaseResponse> =>
+  notionRequest<DatabaseResponse>(token, "GET", `/databases/${databaseId}`);
+
+export const findSchemaIssues = (
+  actual: Record<string, { type: string }>,
+  schema: DatabaseSchema
+): SchemaIssue[] =>
+  Object.entries(schema)
+    .filter(([name, { type, optional }]) => actual[name]?.type !== type && !(optional && !actual[name]))
+    .map(([name, { type }]) => ({ property: name, expected: type, actual: actual[name]?.type ?? null }));
+
+// Checks the live database before any writes and fails with a report of every
+// missing or mistyped property
+export const validateSchema = async (
+  token: string,
+  databaseId: string,
+  schema: DatabaseSchema,
+  label = "database"
+): Promise<void> => {
+  const database = await retrieveDatabase(token, databaseId);
+  const issues = findSchemaIssues(database.properties, schema);
+
+  if (!issues.length) {
+    logger.info(`Schema check passed for ${label}`, { properties: Object.keys(schema).length });
+    return;
+  }
+
+  logger.error(`Schema check failed for ${label} (${databaseId})`);
+  for (const issue of issues) {
+    logger.error(
+      issue.actual
+        ? `  "${issue.property}" is ${issue.actual}, expected ${issue.expected}`
+        : `  "${issue.property}" is missing (expected ${issue.expected})`
+    );
+  }
+  logger.info(`  Available properties: ${Object.keys(database.properties).join(", ")}`);
+
+  throw new SchemaValidationError(databaseId, issues);
+};
+
+// Relations need a target database and place properties can't be created
+// through the API, so those are left for a human
+const PROVISIONABLE_TYPES = new Set<SchemaPropertyType>([
+  "title",
+  "rich_text",
+  "number",
+  "select",
+  "multi_select",
+  "date",
+  "url",
+  "checkbox",
+  "files",
+]);
+
+const isSelectType = (type: string): type is "select" | "multi_select" =>
+  type === "select" || type === "multi_select";
+
+export const planSchemaChanges = (
+  actual: Record<string, DatabasePropertyResponse>,
+  schema: DatabaseSchema
+): SchemaChangePlan => {
+  const plan: SchemaChangePlan = { properties: {}, added: [], options: [], manual: [] };
+
+  for (const [name, expected] of Object.entries(schema)) {
+    const existing = actual[name];
+
+    if (!existing) {
+      if (expected.type === "title") {
+        // A database has exactly one title property; renaming it could break
+        // views and other integrations, so that is left for a human
+        const [titleName] = Object.entries(actual).find(([, p]) => p.type === "title") ?? [];
+        plan.manual.push(
+          titleName
+            ? `title property "${titleName}" should be renamed to "${name}"`
+            : `"${name}" must be the title property`
+        );
+        continue;
+      }
+
+      if (!PROVISIONABLE_TYPES.has(expected.type)) {
+        if (!expected.optional) plan.manual.push(`"${name}" (${expected.type}) must be created by hand`);
+        continue;
+      }
+
+      plan.properties[name] = {
+        [expected.type]: isSelectType(expected.type)
+          ? { options: (expected.options ?? []).map((option) => ({ name: option })) }
+          : {},
+      };
+      plan.added.push(name);
+      continue;
+    }
+
+    if (existing.type !== expected.type) {
+      plan.manual.push(`"${name}" is ${existing.type}, expected ${expected.type}`);
+      continue;
+    }
+
+    if (isSelectType(expected.type) && expected.options?.length) {
+      const current = existing[expected.type]?.options ?? [];
+      const known = new Set(current.map((option) => option.name));
+      const missing = expected.options.filter((option) => !known.has(option));
+
+      if (missing.length) {
+        // Existing options have to be sent back or Notion drops them
+        plan.properties[name] = {
+          [expected.type]: {
+            options: [...current, ...missing.map((option) => ({ name: option }))],
+          },
+        };
+        plan.options.push({ property: name, added: missing });
+      }
+    }
+  }
+
+  return plan;
+};
+
+// Adds missing properties and select options to a database. Existing
+// properties are never renamed, retyped or removed.
+export const ensureSchema = async (
+  token: string,
+  databaseId: string,
+  schema: DatabaseSchema,
+  label = "database"
+): Promise<SchemaChangePlan> => {
+  const database = await retrieveDatabase(token, databaseId);
+  const plan = planSchemaChanges(database.properties, schema);
+
+  if (Object.keys(plan.properties).length) {
+    await notionRequest(token, "PATCH", `/databases/${databaseId}`, { properties: plan.properties });
+  }
+
+  for (const name of plan.added) {
+    logger.success(`Added property to ${label}`, { property: name, type: schema[name].type });
+  }
+  for (const { property, added } of plan.options) {
+    logger.success(`Added options to ${label}`, { property, options: added });
+  }
+  for (const problem of plan.manual) {
+    logger.alert(`Needs manual change on ${label}: ${problem}`);
+  }
+
+  if (!Object.keys(plan.properties).length && !plan.manual.length) {
+    logger.info(`Schema for ${label} is already up to date`);
+  }
+
+  return plan;
+};
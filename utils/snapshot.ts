@@ -0,0 +1,284 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+// Utils
+import { isDryRun } from "utils/dry-run";
+import { logger } from "utils/logger";
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+
+// Local, file-based mirror of a Notion database. Each snapshot keeps the raw
+// pages (so dry runs can read from it in place of the API) alongside
+// normalized property values for ad-hoc queries and diffs.
+
+type PageResponse = PageObjectResponse;
+type PropertyValue = PageResponse["properties"][string];
+
+export type SnapshotValue =
+  | string
+  | number
+  | boolean
+  | null
+  | string[]
+  | { start: string; end: string | null }
+  | { lat: number; lon: number; name: string | null };
+
+export interface SnapshotPage {
+  id: string;
+  title: string;
+  createdTime: string;
+  lastEditedTime: string;
+  values: Record<string, SnapshotValue>;
+  raw: PageResponse;
+}
+
+export interface Snapshot {
+  label: string;
+  databaseId: string;
+  takenAt: string;
+  pages: Record<string, SnapshotPage>;
+}
+
+export interface SnapshotChange {
+  property: string;
+  before: SnapshotValue | undefined;
+  after: SnapshotValue | undefined;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotPage[];
+  removed: SnapshotPage[];
+  changed: Array<{ page: SnapshotPage; changes: SnapshotChange[] }>;
+}
+
+export const getSnapshotDir = (): string => process.env.NOTION_SNAPSHOT_DIR ?? ".notion-snapshots";
+
+// Workflows act on what they read, so snapshot reads are only allowed in a
+// dry run where nothing is written back based on stale data
+export const readsFromSnapshot = (): boolean => {
+  if (!["1", "true", "yes"].includes((process.env.NOTION_READ_SNAPSHOT ?? "").toLowerCase())) return false;
+  if (!isDryRun()) {
+    throw new Error("NOTION_READ_SNAPSHOT only works together with DRY_RUN, so stale pages are never written back");
+  }
+  return true;
+};
+
+const describeAge = (takenAt: string): string => {
+  const hours = (Date.now() - Date.parse(takenAt)) / (60 * 60_000);
+  return hours < 48 ? `${Math.round(hours)} hour(s)` : `${Math.round(hours / 24)} day(s)`;
+};
+
+const plainText = (items: Array<{ plain_text: string }>): string | null =>
+  items.map((item) => item.plain_text).join("") || null;
+
+export const normalizePropertyValue = (property: PropertyValue): SnapshotValue => {
+  switch (property.type) {
+    case "title":
+      return plainText(property.title);
+    case "rich_text":
+      return plainText(property.rich_text);
+    case "number":
+      return property.number;
+    case "select":
+      return property.select?.name ?? null;
+    case "status":
+      return property.status?.name ?? null;
+    case "multi_select":
+      return property.multi_select.map((option) => option.name);
+    case "date":
+      return property.date ? { start: property.date.start, end: property.date.end } : null;
+    case "checkbox":
+      return property.checkbox;
+    case "url":
+      return property.url;
+    case "email":
+      return property.email;
+    case "relation":
+      return property.relation.map((relation) => relation.id);
+    case "place":
+      return property.place
+        ? { lat: property.place.lat, lon: property.place.lon, name: property.place.name ?? null }
+        : null;
+    case "files":
+      return property.files.map((file) =>
+        "external" in file ? file.external.url : file.file.url
+      );
+    default:
+      return JSON.stringify(property[property.type as keyof typeof property] ?? null);
+  }
+};
+
+export const toSnapshotPage = (page: PageResponse): SnapshotPage => {
+  const values = Object.fromEntries(
+    Object.entries(page.properties).map(([name, property]) => [name, normalizePropertyValue(property)])
+  );
+  const titleProperty = Object.values(page.properties).find((property) => property.type === "title");
+
+  return {
+    id: page.id,
+    title: titleProperty?.type === "title" ? (plainText(titleProperty.title) ?? "") : "",
+    createdTime: page.created_time,
+    lastEditedTime: page.last_edited_time,
+    values,
+    raw: page,
+  };
+};
+
+export const createSnapshot = (
+  label: string,
+  databaseId: string,
+  pages: PageResponse[]
+): Snapshot => ({
+  label,
+  databaseId,
+  takenAt: new Date().toISOString(),
+  pages: Object.fromEntries(pages.map((page) => [page.id, toSnapshotPage(page)])),
+});
+
+const slugify = (label: string): string => label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+export const saveSnapshot = (snapshot: Snapshot, dir = getSnapshotDir()): string => {
+  const folder = join(dir, slugify(snapshot.label));
+  mkdirSync(folder, { recursive: true });
+  const path = join(folder, `${snapshot.takenAt.replace(/[-:]/g, "").replace(/\..+/, "")}.json`);
+  writeFileSync(path, JSON.stringify(snapshot));
+  return path;
+};
+
+export const loadSnapshot = (path: string): Snapshot =>
+  JSON.parse(readFileSync(path, "utf-8")) as Snapshot;
+
+// Oldest first
+export const listSnapshots = (label: string, dir = getSnapshotDir()): string[] => {
+  const folder = join(dir, slugify(label));
+  if (!existsSync(folder)) return [];
+  return readdirSync(folder)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => join(folder, file));
+};
+
+export const findLatestSnapshot = (
+  databaseId: string,
+  dir = getSnapshotDir()
+): Snapshot | undefined => {
+  if (!existsSync(dir)) return undefined;
+
+  const latest = readdirSync(dir)
+    .map((label) => listSnapshots(label, dir).at(-1))
+    .filter((path): path is string => Boolean(path))
+    .map(loadSnapshot)
+    .filter((snapshot) => snapshot.databaseId === databaseId)
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+    .at(-1);
+
+  if (latest) {
+    logger.warn(`Reading pages from a snapshot taken ${describeAge(latest.takenAt)} ago, not from Notion`, {
+      label: latest.label,
+      takenAt: latest.takenAt,
+      pages: Object.keys(latest.pages).length,
+    });
+  }
+  return latest;
+};
+
+// Queries
+
+export type SnapshotPredicate = (page: SnapshotPage) => boolean;
+
+const OPERATORS = ["contains", "!=", ">=", "<=", "=", ">", "<", "is-empty", "is-not-empty"] as const;
+
+const isEmptyValue = (value: SnapshotValue | undefined): boolean =>
+  value === null || value === undefined || value === "" || (Array.isArray(value) && !value.length);
+
+const valueText = (value: SnapshotValue | undefined): string =>
+  value === null || value === undefined
+    ? ""
+    : typeof value === "object" && !Array.isArray(value)
+      ? "start" in value
+        ? value.start
+        : String(value.name ?? "")
+      : String(value);
+
+// Parses expressions such as `Ingredients contains Garlic`, `Year >= 2000` or
+// `Overview is-empty`. Comparisons are case-insensitive.
+export const parseWhere = (expression: string): SnapshotPredicate => {
+  for (const operator of OPERATORS) {
+    const token = ` ${operator}`;
+    const index = expression.indexOf(token);
+    if (index <= 0) continue;
+
+    const property = expression.slice(0, index).trim();
+    const expected = expression.slice(index + token.length).trim().toLowerCase();
+    const number = Number(expected);
+
+    return (page) => {
+      const value = page.values[property];
+      const text = valueText(value).toLowerCase();
+
+      switch (operator) {
+        case "is-empty":
+          return isEmptyValue(value);
+        case "is-not-empty":
+          return !isEmptyValue(value);
+        case "contains":
+          return Array.isArray(value)
+            ? value.some((item) => item.toLowerCase() === expected)
+            : text.includes(expected);
+        case "=":
+          return Array.isArray(value)
+            ? value.length === 1 && value[0].toLowerCase() === expected
+            : text === expected;
+        case "!=":
+          return text !== expected;
+        case ">":
+          return typeof value === "number" ? value > number : text > expected;
+        case "<":
+          return typeof value === "number" ? value < number : text < expected;
+        case ">=":
+          return typeof value === "number" ? value >= number : text >= expected;
+        case "<=":
+          return typeof value === "number" ? value <= number : text <= expected;
+      }
+    };
+  }
+
+  throw new Error(
+    `Could not parse "${expression}". Use "<property> <operator> <value>" with one of: ${OPERATORS.join(", ")}`
+  );
+};
+
+export const querySnapshot = (
+  snapshot: Snapshot,
+  predicates: SnapshotPredicate[] = []
+): SnapshotPage[] =>
+  Object.values(snapshot.pages).filter((page) => predicates.every((matches) => matches(page)));
+
+// Diffing
+
+const sameValue = (a: SnapshotValue | undefined, b: SnapshotValue | undefined): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const diffSnapshots = (before: Snapshot, after: Snapshot): SnapshotDiff => {
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] };
+
+  for (const [id, page] of Object.entries(after.pages)) {
+    const previous = before.pages[id];
+    if (!previous) {
+      diff.added.push(page);
+      continue;
+    }
+
+    const names = new Set([...Object.keys(previous.values), ...Object.keys(page.values)]);
+    const changes = [...names]
+      .filter((name) => !sameValue(previous.values[name], page.values[name]))
+      .map((name) => ({ property: name, before: previous.values[name], after: page.values[name] }));
+
+    if (changes.length) diff.changed.push({ page, changes });
+  }
+
+  for (const [id, page] of Object.entries(before.pages)) {
+    if (!after.pages[id]) diff.removed.push(page);
+  }
+
+  return diff;
+};
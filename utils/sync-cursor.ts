@@ -0,0 +1,101 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+// Utils
+import { logger } from "utils/logger";
+import { getAllPages } from "utils/notion";
+import { queryDatabase, where } from "utils/notion-gateway";
+import { isDryRun } from "utils/dry-run";
+import { readsFromSnapshot } from "utils/snapshot";
+// Types
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+
+// Nightly jobs only need pages that changed since their last successful run.
+// A cursor per database is persisted locally (and cached between CI runs);
+// every few days a full scan still runs to pick up anything that was missed.
+
+type PageResponse = PageObjectResponse;
+
+interface SyncCursor {
+  lastSyncedAt: string;
+  lastFullSyncAt: string;
+}
+
+type SyncState = Record<string, SyncCursor>;
+
+export type SyncMode = "full" | "incremental";
+
+export interface PageSync {
+  pages: PageResponse[];
+  mode: SyncMode;
+  // Persist the cursor once the run has finished successfully
+  commit: () => void;
+}
+
+// Notion rounds last_edited_time to the minute, so look back a little further
+const CURSOR_OVERLAP_MS = 2 * 60_000;
+
+export const getSyncStatePath = (): string =>
+  process.env.NOTION_SYNC_STATE_PATH ?? ".notion-sync-state.json";
+
+const getFullSyncIntervalDays = (): number =>
+  Number(process.env.NOTION_FULL_SYNC_DAYS) || 7;
+
+const isFullSyncForced = (): boolean =>
+  ["1", "true", "yes"].includes((process.env.NOTION_FULL_SYNC ?? "").toLowerCase());
+
+export const readSyncState = (path = getSyncStatePath()): SyncState =>
+  existsSync(path) ? (JSON.parse(readFileSync(path, "utf-8")) as SyncState) : {};
+
+const writeSyncCursor = (databaseId: string, cursor: SyncCursor): void => {
+  const path = getSyncStatePath();
+  const state = { ...readSyncState(path), [databaseId]: cursor };
+  writeFileSync(path, `${JSON.stringify(state, null, 2)}\n`);
+};
+
+const chooseMode = (cursor: SyncCursor | undefined, startedAt: Date): SyncMode => {
+  if (!cursor || isFullSyncForced()) return "full";
+
+  const fullSyncAge = startedAt.getTime() - Date.parse(cursor.lastFullSyncAt);
+  return fullSyncAge >= getFullSyncIntervalDays() * 24 * 60 * 60_000 ? "full" : "incremental";
+};
+
+export const syncPages = async (databaseId: string, token: string): Promise<PageSync> => {
+  const startedAt = new Date();
+
+  // Snapshots are already a point-in-time copy, so the cursor is left alone
+  if (readsFromSnapshot()) {
+    return { pages: await getAllPages(databaseId, token), mode: "full", commit: () => {} };
+  }
+
+  const cursor = readSyncState()[databaseId];
+  const mode = chooseMode(cursor, startedAt);
+
+  let pages: PageResponse[];
+
+  if (mode === "full" || !cursor) {
+    logger.info("Running full sync", {
+      databaseId,
+      lastFullSyncAt: cursor?.lastFullSyncAt ?? null,
+    });
+    pages = await getAllPages(databaseId, token);
+  } else {
+    const since = new Date(Date.parse(cursor.lastSyncedAt) - CURSOR_OVERLAP_MS).toISOString();
+    logger.info("Running incremental sync", { databaseId, since });
+    pages = await queryDatabase(token, databaseId)
+      .filter(where.lastEditedTime().onOrAfter(since))
+      .all();
+    logger.info(`Found ${pages.length} page(s) edited since last sync`);
+  }
+
+  return {
+    pages,
+    mode,
+    commit: () => {
+      if (isDryRun()) return;
+      writeSyncCursor(databaseId, {
+        lastSyncedAt: startedAt.toISOString(),
+        lastFullSyncAt:
+          mode === "full" || !cursor ? startedAt.toISOString() : cursor.lastFullSyncAt,
+      });
+    },
+  };
+};
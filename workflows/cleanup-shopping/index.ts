@@ -1,12 +1,16 @@
 // Utils
-import { createNotionClient, getAllBlocks } from 'utils/notion';
+import { createNotionClient } from 'utils/notion';
+import {
+  deleteNode,
+  fetchBlockTree,
+  getSections,
+  insertAfter,
+  isBlockType,
+  isCheckedTodo,
+} from 'utils/block-tree';
+import { textBlock } from 'utils/markdown-blocks';
 // Types
-import type {
-  BlockObjectResponse,
-  PartialBlockObjectResponse,
-} from '@notionhq/client/build/src/api-endpoints';
-
-type BlockResponse = BlockObjectResponse | PartialBlockObjectResponse;
+import type { BlockNode, BlockTree, Section } from 'utils/block-tree';
 
 const NOTION_TOKEN = process.env.NOTION_TOKEN;
 const PAGE_ID = process.env.NOTION_PAGE_ID;
@@ -23,137 +27,68 @@ if (!PAGE_ID) {
 
 const notion = createNotionClient(NOTION_TOKEN);
 
-const isToDoBlock = (
-  block: BlockResponse
-): block is BlockObjectResponse & { type: 'to_do' } => {
-  return 'type' in block && block.type === 'to_do';
-};
-
-const isHeading2Block = (
-  block: BlockResponse
-): block is BlockObjectResponse & { type: 'heading_2' } => {
-  return 'type' in block && block.type === 'heading_2';
-};
-
-const isParagraphBlock = (
-  block: BlockResponse
-): block is BlockObjectResponse & { type: 'paragraph' } => {
-  return 'type' in block && block.type === 'paragraph';
-};
-
-const deleteCheckedTodoBlock = async (block: BlockResponse): Promise<boolean> => {
-  if (!isToDoBlock(block) || !block.to_do.checked) {
-    return false;
-  }
-
-  await notion.blocks.delete({ block_id: block.id });
-  const textContent =
-    (block.to_do.rich_text?.map((t) => ('plain_text' in t ? t.plain_text : '')).join(' ')) ||
-    '<empty>';
-  console.log(`Deleted: ${textContent}`);
-  return true;
-};
+const deleteCheckedTodoBlocks = async (tree: BlockTree, nodes: BlockNode[]): Promise<void> => {
+  // Copy, since deleting removes the node from the list being walked
+  for (const node of [...nodes]) {
+    if (isCheckedTodo(node)) {
+      await deleteNode(notion, tree, node);
+      console.log(`Deleted: ${node.text || '<empty>'}`);
+      continue;
+    }
 
-const processNestedBlocks = async (block: BlockResponse): Promise<void> => {
-  if ('has_children' in block && block.has_children) {
-    await deleteCheckedTodos(block.id);
+    await deleteCheckedTodoBlocks(tree, node.children);
   }
 };
 
-interface TodoSearchResult {
-  hasTodo: boolean;
-  paragraphs: Array<BlockObjectResponse & { type: 'paragraph' }>;
+interface EmptyHeading {
+  section: Section;
+  // Leftover empty paragraphs directly under the heading, replaced too
+  paragraphs: BlockNode<'paragraph'>[];
 }
 
-const findTodoOrParagraphsAfterHeading = (
-  allBlocks: BlockResponse[],
-  headingIndex: number
-): TodoSearchResult => {
-  let j = headingIndex + 1;
-  const paragraphs: Array<BlockObjectResponse & { type: 'paragraph' }> = [];
+// Headings without a to-do straight after them (past any paragraphs), at every level
+const findEmptyHeadings = (nodes: BlockNode[]): EmptyHeading[] => {
+  const empty: EmptyHeading[] = [];
 
-  while (j < allBlocks.length) {
-    const nextBlock = allBlocks[j];
+  for (const section of getSections(nodes)) {
+    const paragraphs: BlockNode<'paragraph'>[] = [];
+    let node = section.heading.next;
 
-    if (isParagraphBlock(nextBlock)) {
-      paragraphs.push(nextBlock);
-      j++;
-      continue;
-    }
-
-    if (isToDoBlock(nextBlock)) {
-      return { hasTodo: true, paragraphs };
+    while (isBlockType(node, 'paragraph')) {
+      paragraphs.push(node);
+      node = node.next;
     }
 
-    if ('type' in nextBlock && nextBlock.type.startsWith('heading_')) {
-      return { hasTodo: false, paragraphs };
-    }
-
-    return { hasTodo: false, paragraphs };
+    if (!isBlockType(node, 'to_do')) empty.push({ section, paragraphs });
   }
 
-  return { hasTodo: false, paragraphs };
-};
-
-const addEmptyTodoAfterHeading = async (
-  parentBlockId: string,
-  headingBlock: BlockObjectResponse & { type: 'heading_2' },
-  paragraphsToDelete: Array<BlockObjectResponse & { type: 'paragraph' }> = []
-): Promise<void> => {
-  for (const para of paragraphsToDelete) {
-    await notion.blocks.delete({ block_id: para.id });
+  for (const node of nodes) {
+    empty.push(...findEmptyHeadings(node.children));
   }
-
-  await notion.blocks.children.append({
-    block_id: parentBlockId,
-    children: [
-      {
-        type: 'to_do',
-        to_do: {
-          rich_text: [],
-          checked: false,
-        },
-      },
-    ],
-    after: headingBlock.id,
-  });
-
-  const blockText =
-    (headingBlock.heading_2.rich_text?.map((t) => ('plain_text' in t ? t.plain_text : '')).join(' ')) ||
-    'section';
-  console.log(`Added empty to-do under: ${blockText}`);
+  return empty;
 };
 
-const processEmptyHeadings = async (
-  parentBlockId: string,
-  allBlocks: BlockResponse[]
-): Promise<void> => {
-  for (let i = 0; i < allBlocks.length; i++) {
-    const block = allBlocks[i];
-
-    if (isHeading2Block(block)) {
-      const { hasTodo, paragraphs } = findTodoOrParagraphsAfterHeading(
-        allBlocks,
-        i
-      );
-
-      if (!hasTodo) {
-        await addEmptyTodoAfterHeading(parentBlockId, block, paragraphs);
-      }
-    }
+const addEmptyTodo = async (tree: BlockTree, { section, paragraphs }: EmptyHeading): Promise<void> => {
+  for (const paragraph of paragraphs) {
+    await deleteNode(notion, tree, paragraph);
   }
+
+  await insertAfter(notion, tree, section.heading, [textBlock('to_do', '', { checked: false })]);
+  console.log(`Added empty to-do under: ${section.title || 'section'}`);
 };
 
-const deleteCheckedTodos = async (parentBlockId: string): Promise<void> => {
+// Sub-pages are cleaned up as well. Empty headings are found on the page as
+// loaded, so a heading whose to-dos were all ticked off only gets its empty
+// to-do on the next run.
+const deleteCheckedTodos = async (pageId: string): Promise<void> => {
   try {
-    const allBlocks = await getAllBlocks(notion, parentBlockId);
+    const tree = await fetchBlockTree(notion, pageId, { includeChildPages: true });
+    const emptyHeadings = findEmptyHeadings(tree.children);
 
-    for (const block of allBlocks) {
-      await deleteCheckedTodoBlock(block);
-      await processNestedBlocks(block);
+    await deleteCheckedTodoBlocks(tree, tree.children);
+    for (const heading of emptyHeadings) {
+      await addEmptyTodo(tree, heading);
     }
-
-    await processEmptyHeadings(parentBlockId, allBlocks);
   } catch (error) {
     console.error('Error deleting checked todos:', error);
     throw error;
@@ -0,0 +1,113 @@
+// Utils
+import { REVIEW_QUEUE_SCHEMA } from "utils/review-queue";
+// Config
+import { REPEAT_EVENTS_SCHEMA, EVENTS_SCHEMA } from "../events-calendar/config";
+import { DATABASE_SCHEMA as MEAL_PLANNER_DAYS_SCHEMA } from "../manage-meal-planner/config";
+import {
+  MEAL_PLANNER_SCHEMA,
+  MEALS_SCHEMA,
+  SHOPPING_HELPER_SCHEMA,
+} from "../manage-shopping/config";
+import { DATABASE_SCHEMA as FILMS_SCHEMA } from "../populate-films-and-tv/config";
+import { DATABASE_SCHEMA as MEAL_DETAILS_SCHEMA } from "../populate-meals/config";
+import { DATABASE_SCHEMA as PUBS_SCHEMA } from "../populate-pubs/config";
+import { DATABASE_SCHEMA as TRAVEL_SCHEMA } from "../populate-travel-database/config";
+import { DATABASE_SCHEMA as WALKS_SCHEMA } from "../populate-walks-database/config";
+// Types
+import type { DatabaseSchema } from "utils/schema";
+
+export interface SchemaTarget {
+  workflow: string;
+  label: string;
+  databaseEnv: string;
+  tokenEnv: string;
+  schema: DatabaseSchema;
+}
+
+// Every database a workflow reads or writes, keyed by the env var that holds its id
+export const SCHEMA_TARGETS: SchemaTarget[] = [
+  {
+    workflow: "events-calendar",
+    label: "repeat events",
+    databaseEnv: "REPEAT_EVENTS_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: REPEAT_EVENTS_SCHEMA,
+  },
+  {
+    workflow: "events-calendar",
+    label: "events",
+    databaseEnv: "EVENTS_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: EVENTS_SCHEMA,
+  },
+  {
+    workflow: "manage-meal-planner",
+    label: "meal planner",
+    databaseEnv: "MEAL_PLANNER_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: MEAL_PLANNER_DAYS_SCHEMA,
+  },
+  {
+    workflow: "manage-shopping",
+    label: "meal planner",
+    databaseEnv: "MEAL_PLANNER_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: MEAL_PLANNER_SCHEMA,
+  },
+  {
+    workflow: "manage-shopping",
+    label: "meals",
+    databaseEnv: "MEALS_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: MEALS_SCHEMA,
+  },
+  {
+    workflow: "manage-shopping",
+    label: "shopping helper",
+    databaseEnv: "SHOPPING_HELPER_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: SHOPPING_HELPER_SCHEMA,
+  },
+  {
+    workflow: "populate-films-and-tv",
+    label: "films",
+    databaseEnv: "FILMS_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: FILMS_SCHEMA,
+  },
+  {
+    workflow: "populate-meals",
+    label: "meals",
+    databaseEnv: "MEALS_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: MEAL_DETAILS_SCHEMA,
+  },
+  {
+    workflow: "populate-pubs",
+    label: "pubs",
+    databaseEnv: "PUBS_DATABASE_ID",
+    tokenEnv: "PRIVATE_INTEGRATION_TOKEN",
+    schema: PUBS_SCHEMA,
+  },
+  {
+    workflow: "populate-travel-database",
+    label: "travel",
+    databaseEnv: "TRAVEL_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: TRAVEL_SCHEMA,
+  },
+  {
+    workflow: "populate-walks-database",
+    label: "walks",
+    databaseEnv: "WALKS_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: WALKS_SCHEMA,
+  },
+  {
+    workflow: "review-queue",
+    label: "pending suggestions",
+    databaseEnv: "REVIEW_QUEUE_DATABASE_ID",
+    tokenEnv: "NOTION_TOKEN",
+    schema: REVIEW_QUEUE_SCHEMA,
+  },
+];
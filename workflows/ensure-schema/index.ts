@@ -0,0 +1,67 @@
+import 'dotenv/config';
+// Utils
+import { logger } from "utils/logger";
+import { ensureSchema } from "utils/schema";
+// Config
+import { SCHEMA_TARGETS } from "./config";
+
+// Usage: npx tsx workflows/ensure-schema/index.ts [workflow ...]
+// With no arguments every database whose id env var is set is provisioned.
+const requested = process.argv.slice(2);
+
+const unknown = requested.filter(
+  (name) => !SCHEMA_TARGETS.some((target) => target.workflow === name)
+);
+if (unknown.length) {
+  const known = [...new Set(SCHEMA_TARGETS.map((target) => target.workflow))].join(", ");
+  logger.error(`Unknown workflow(s): ${unknown.join(", ")}. Known workflows: ${known}`);
+  process.exit(1);
+}
+
+const run = async () => {
+  const targets = SCHEMA_TARGETS.filter(
+    (target) => !requested.length || requested.includes(target.workflow)
+  );
+
+  let provisioned = 0;
+  let needsManualChanges = 0;
+
+  for (const target of targets) {
+    const databaseId = process.env[target.databaseEnv];
+    const token = process.env[target.tokenEnv];
+
+    if (!databaseId || !token) {
+      const missing = !databaseId ? target.databaseEnv : target.tokenEnv;
+      if (requested.length) {
+        logger.error(`${missing} is not defined`, { workflow: target.workflow });
+        process.exit(1);
+      }
+      logger.skip(`Skipping ${target.workflow} (${target.label}) - ${missing} is not defined`);
+      continue;
+    }
+
+    logger.info(`Ensuring schema for ${target.workflow} (${target.label})`);
+    const plan = await ensureSchema(token, databaseId, target.schema, target.label);
+    provisioned++;
+    if (plan.manual.length) needsManualChanges++;
+  }
+
+  if (provisioned === 0) {
+    logger.warn("No databases configured - set the database id env vars for the workflows to provision");
+    return;
+  }
+
+  if (needsManualChanges > 0) {
+    logger.alert(`${needsManualChanges} database(s) still need manual changes`);
+    process.exit(1);
+  }
+
+  logger.success("All schemas are up to date", { databases: provisioned });
+};
+
+try {
+  await run();
+} catch (err) {
+  logger.error("Unexpected error", err instanceof Error ? err : undefined);
+  process.exit(1);
+}
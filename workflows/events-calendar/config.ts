@@ -1,3 +1,5 @@
+import type { DatabaseSchema } from "utils/schema";
+
 export const REPEAT_EVENTS_DB_ID = process.env.REPEAT_EVENTS_DB_ID!;
 export const EVENTS_DB_ID = process.env.EVENTS_DB_ID!;
 
@@ -24,4 +26,27 @@ export const MONTH_NAMES = [
   "October",
   "November",
   "December",
-];
\ No newline at end of file
+];
+
+const SHARED_EVENT_PROPERTIES: DatabaseSchema = {
+  Event: { type: "title" },
+  Where: { type: "rich_text", optional: true },
+  Overview: { type: "rich_text", optional: true },
+  "Start time": { type: "rich_text", optional: true },
+  "End time": { type: "rich_text", optional: true },
+  Website: { type: "url", optional: true },
+  Geolocation: { type: "place", optional: true },
+};
+
+export const REPEAT_EVENTS_SCHEMA: DatabaseSchema = {
+  ...SHARED_EVENT_PROPERTIES,
+  Weekday: { type: "select" },
+  "Week ordinal": { type: "select" },
+  "Excluded months": { type: "multi_select", optional: true },
+};
+
+export const EVENTS_SCHEMA: DatabaseSchema = {
+  ...SHARED_EVENT_PROPERTIES,
+  Date: { type: "date" },
+  "Generated id": { type: "rich_text" },
+};
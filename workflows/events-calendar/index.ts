@@ -2,9 +2,21 @@ import 'dotenv/config';
 // Utils
 import { logger } from 'utils/logger';
 import { createNotionClient, getAllPages } from 'utils/notion';
-import { generatedEventExists, getNthWeekdayOfMonth, getText, getTitle } from './utils';
+import {
+  readMultiSelect,
+  readOptional,
+  readPlace,
+  readSelect,
+  readText,
+  readTitle,
+  readUrl,
+} from 'utils/properties';
+import { retrieveDatabase, validateSchema } from 'utils/schema';
+import { generatedEventExists, getNthWeekdayOfMonth } from './utils';
+// Types
+import type { PlaceValue } from 'utils/properties';
 // Config
-import { MONTH_NAMES, WEEKDAY_MAP } from './config';
+import { EVENTS_SCHEMA, MONTH_NAMES, REPEAT_EVENTS_SCHEMA, WEEKDAY_MAP } from './config';
 
 
 const NOTION_TOKEN = process.env.NOTION_TOKEN;
@@ -28,12 +40,15 @@ if (!REPEAT_EVENTS_DATABASE_ID) {
 
 const notion = createNotionClient(NOTION_TOKEN);
 
+// Properties of the events database, loaded at the start of the run
+const eventProperties = new Set<string>();
+
 const createEvent = async (args: {
   event: string;
   date: Date;
   generatedId: string;
   where?: string;
-  geolocation?: any;
+  geolocation?: PlaceValue;
   startTime?: string;
   endTime?: string;
   overview?: string;
@@ -47,62 +62,71 @@ const createEvent = async (args: {
 
   logger.info(`Creating event with date: ${isoDate} (from Date object: ${args.date.toString()})`);
 
-  await notion.pages.create({
-    parent: { database_id: EVENTS_DATABASE_ID },
-    properties: {
-      Event: {
-        title: [{ text: { content: args.event } }],
+  const properties = {
+    Event: {
+      title: [{ text: { content: args.event } }],
+    },
+
+    Date: {
+      date: { start: isoDate },
+    },
+
+    "Generated id": {
+      rich_text: [{ text: { content: args.generatedId } }],
+    },
+
+    ...(args.startTime && {
+      "Start time": {
+        rich_text: [{ text: { content: args.startTime } }],
       },
+    }),
 
-      Date: {
-        date: { start: isoDate },
+    ...(args.endTime && {
+      "End time": {
+        rich_text: [{ text: { content: args.endTime } }],
       },
+    }),
 
-      "Generated id": {
-        rich_text: [{ text: { content: args.generatedId } }],
+    ...(args.where && {
+      Where: {
+        rich_text: [{ text: { content: args.where } }],
       },
+    }),
 
-      ...(args.startTime && {
-        "Start time": {
-          rich_text: [{ text: { content: args.startTime } }],
-        },
-      }),
-
-      ...(args.endTime && {
-        "End time": {
-          rich_text: [{ text: { content: args.endTime } }],
-        },
-      }),
-
-      ...(args.where && {
-        Where: {
-          rich_text: [{ text: { content: args.where } }],
-        },
-      }),
-
-      ...(args.overview && {
-        Overview: {
-          rich_text: [{ text: { content: args.overview } }],
-        },
-      }),
-
-      ...(args.website && {
-        Website: {
-          url: args.website,
-        },
-      }),
-
-      ...(args.geolocation && {
-        Geolocation: {
-          location: args.geolocation,
-        },
-      }),
-    },
+    ...(args.overview && {
+      Overview: {
+        rich_text: [{ text: { content: args.overview } }],
+      },
+    }),
+
+    ...(args.website && {
+      Website: {
+        url: args.website,
+      },
+    }),
+
+    ...(args.geolocation && {
+      Geolocation: {
+        place: args.geolocation,
+      },
+    }),
+  };
+
+  // Optional properties the events database leaves out are dropped
+  await notion.pages.create({
+    parent: { database_id: EVENTS_DATABASE_ID },
+    properties: Object.fromEntries(
+      Object.entries(properties).filter(([name]) => eventProperties.has(name))
+    ),
   });
 }
 
 const run = async () => {
   logger.info("Starting event generation process");
+  await validateSchema(NOTION_TOKEN, REPEAT_EVENTS_DATABASE_ID, REPEAT_EVENTS_SCHEMA, "repeat events");
+  await validateSchema(NOTION_TOKEN, EVENTS_DATABASE_ID, EVENTS_SCHEMA, "events");
+  const eventsDatabase = await retrieveDatabase(NOTION_TOKEN, EVENTS_DATABASE_ID);
+  Object.keys(eventsDatabase.properties).forEach((name) => eventProperties.add(name));
   const now = new Date();
   const end = new Date(now);
   end.setMonth(end.getMonth() + 12);
@@ -113,10 +137,7 @@ const run = async () => {
   logger.info(`Found ${repeatEvents.length} repeat events to process`);
 
   for (const page of repeatEvents) {
-    // @ts-ignore – Notion SDK types are useless here
-    const props = page.properties;
-
-    const event = getTitle(props.Event);
+    const event = readTitle(page, "Event");
     if (!event) {
       logger.warn(`Skipping page - no event title found`);
       continue;
@@ -127,7 +148,7 @@ const run = async () => {
     const templateId = page.id;
     logger.info(`Template ID: ${templateId}`);
 
-    const weekdayName = props.Weekday?.select?.name;
+    const weekdayName = readSelect(page, "Weekday");
     if (!weekdayName) {
       logger.warn(`Skipping event "${event}" - no weekday specified`);
       continue;
@@ -137,7 +158,7 @@ const run = async () => {
     const weekday = WEEKDAY_MAP[weekdayName];
 
     // Week ordinal is a single select, not multi_select
-    const ordinalValue = props["Week ordinal"]?.select?.name;
+    const ordinalValue = readSelect(page, "Week ordinal");
     const ordinals: string[] = ordinalValue ? [ordinalValue] : [];
     logger.info(`Week ordinals: ${ordinals.join(', ')}`);
 
@@ -146,17 +167,16 @@ const run = async () => {
       continue;
     }
 
-    const excludedMonths = new Set<string>(
-      props["Excluded months"]?.multi_select?.map((m: any) => m.name) ?? []
-    );
+    // Everything from here on is optional, so templates without it still run
+    const excludedMonths = new Set<string>(readOptional(page, "Excluded months", readMultiSelect) ?? []);
     logger.info(`Excluded months: ${Array.from(excludedMonths).join(', ') || 'none'}`);
 
-    const where = getText(props.Where);
-    const overview = getText(props.Overview);
-    const startTime = getText(props["Start time"]);
-    const endTime = getText(props["End time"]);
-    const website = props.Website?.url ?? undefined;
-    const geolocation = props.Geolocation?.location ?? undefined;
+    const where = readOptional(page, "Where", readText);
+    const overview = readOptional(page, "Overview", readText);
+    const startTime = readOptional(page, "Start time", readText);
+    const endTime = readOptional(page, "End time", readText);
+    const website = readOptional(page, "Website", readUrl);
+    const geolocation = readOptional(page, "Geolocation", readPlace);
 
     const cursor = new Date(now);
     let eventsCreated = 0;
@@ -1,7 +1,14 @@
+import type { DatabaseSchema } from "utils/schema";
+
 export const MEAL_PLANNER_WINDOW_DAYS = 28;
 
 export interface MealPlanDay {
   id: string;
   name: string; // Format: "Mon 1 Jan"
   date: string; // ISO date string
-}
\ No newline at end of file
+}
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  Day: { type: "title" },
+  Date: { type: "date" },
+};
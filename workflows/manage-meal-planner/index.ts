@@ -1,6 +1,9 @@
 import 'dotenv/config';
 import { createNotionClient, getAllPages } from 'utils/notion';
-import { MEAL_PLANNER_WINDOW_DAYS, type MealPlanDay } from "./config";
+import { readDate, readTitle } from 'utils/properties';
+import { runBatch } from 'utils/batch';
+import { validateSchema } from 'utils/schema';
+import { DATABASE_SCHEMA, MEAL_PLANNER_WINDOW_DAYS, type MealPlanDay } from "./config";
 import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
 import { logger } from 'utils/logger';
 
@@ -39,20 +42,12 @@ const toISODate = (date: Date): string => {
 // Parse existing meal plan pages
 const parseExistingPages = (pages: PageObjectResponse[]): MealPlanDay[] => {
   return pages
-    .map((page) => {
-      const nameProperty = page.properties.Day;
-      const dateProperty = page.properties.Date;
-
-      if (nameProperty?.type !== "title" || dateProperty?.type !== "date") {
-        return null;
-      }
-
-      const name = nameProperty.title[0]?.plain_text || "";
-      const date = dateProperty.date?.start || "";
-
-      return { id: page.id, name, date };
-    })
-    .filter((day): day is MealPlanDay => day !== null && day.date !== "");
+    .map((page) => ({
+      id: page.id,
+      name: readTitle(page, "Day") || "",
+      date: readDate(page, "Date")?.start || "",
+    }))
+    .filter((day) => day.date !== "");
 };
 
 // Get today at midnight
@@ -83,15 +78,19 @@ const deleteOldPages = async (existingDays: MealPlanDay[]): Promise<number> => {
   const today = toISODate(getToday());
   const oldPages = existingDays.filter((day) => day.date < today);
 
-  for (const page of oldPages) {
-    await notion.pages.update({
-      page_id: page.id,
-      archived: true,
-    });
-    logger.info("Deleted old meal plan day", { name: page.name, date: page.date });
-  }
+  const report = await runBatch(
+    oldPages,
+    async (page) => {
+      await notion.pages.update({
+        page_id: page.id,
+        archived: true,
+      });
+      logger.info("Deleted old meal plan day", { name: page.name, date: page.date });
+    },
+    { label: "Delete old days", describe: (page) => page.name }
+  );
 
-  return oldPages.length;
+  return report.succeeded.length;
 };
 
 // Create missing pages
@@ -100,12 +99,12 @@ const createMissingPages = async (
   targetDates: Date[]
 ): Promise<number> => {
   const existingDateSet = new Set(existingDays.map((day) => day.date));
-  let created = 0;
+  const missingDates = targetDates.filter((date) => !existingDateSet.has(toISODate(date)));
 
-  for (const date of targetDates) {
-    const isoDate = toISODate(date);
-    
-    if (!existingDateSet.has(isoDate)) {
+  const report = await runBatch(
+    missingDates,
+    async (date) => {
+      const isoDate = toISODate(date);
       await notion.pages.create({
         parent: { database_id: MEAL_PLANNER_DATABASE_ID },
         properties: {
@@ -127,22 +126,23 @@ const createMissingPages = async (
       });
       
       logger.info("Created meal plan day", { name: formatDayName(date), date: isoDate });
-      created++;
-    }
-  }
+    },
+    { label: "Create missing days", describe: (date) => toISODate(date) }
+  );
 
-  return created;
+  return report.succeeded.length;
 };
 
 // Update names for existing pages that might be incorrectly formatted
 const updatePageNames = async (existingDays: MealPlanDay[]): Promise<number> => {
-  let updated = 0;
-
-  for (const day of existingDays) {
-    const date = new Date(day.date + "T00:00:00");
-    const correctName = formatDayName(date);
+  const misnamedDays = existingDays.filter(
+    (day) => day.name !== formatDayName(new Date(day.date + "T00:00:00"))
+  );
 
-    if (day.name !== correctName) {
+  const report = await runBatch(
+    misnamedDays,
+    async (day) => {
+      const correctName = formatDayName(new Date(day.date + "T00:00:00"));
       await notion.pages.update({
         page_id: day.id,
         properties: {
@@ -163,14 +163,16 @@ const updatePageNames = async (existingDays: MealPlanDay[]): Promise<number> =>
         newName: correctName, 
         date: day.date 
       });
-      updated++;
-    }
-  }
+    },
+    { label: "Rename days", describe: (day) => day.name }
+  );
 
-  return updated;
+  return report.succeeded.length;
 };
 
 const run = async () => {
+  await validateSchema(NOTION_TOKEN, MEAL_PLANNER_DATABASE_ID, DATABASE_SCHEMA, "meal planner");
+
   logger.info("Fetching meal plan pages from database...");
   const pages = await getAllPages(MEAL_PLANNER_DATABASE_ID, NOTION_TOKEN);
 
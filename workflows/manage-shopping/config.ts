@@ -0,0 +1,30 @@
+import type { AIConfig } from "utils/ai-providers";
+import type { DatabaseSchema } from "utils/schema";
+
+// Categorising items should give the same answer every night
+export const AI_CONFIG: AIConfig = {
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+  temperature: 0,
+};
+
+export const MEAL_PLANNER_SCHEMA: DatabaseSchema = {
+  Date: { type: "date" },
+  Breakfast: { type: "relation" },
+  Lunch: { type: "relation" },
+  Dinner: { type: "relation" },
+};
+
+export const MEALS_SCHEMA: DatabaseSchema = {
+  Name: { type: "title" },
+  Ingredients: { type: "multi_select" },
+};
+
+export const SHOPPING_HELPER_SCHEMA: DatabaseSchema = {
+  Item: { type: "title" },
+  "Add to shopping list": { type: "checkbox" },
+  "Add to Turkish supermarket shopping list": { type: "checkbox" },
+  "Add to Asian supermarket shopping list": { type: "checkbox" },
+  Delete: { type: "checkbox" },
+  Meal: { type: "relation" },
+};
@@ -1,17 +1,29 @@
 import 'dotenv/config';
+import { fileURLToPath } from "node:url";
+import { dirname } from "node:path";
 // Utils
 import {
   createNotionClient,
   getAllPages,
-  getAllBlocks,
 } from "utils/notion";
+import { fetchBlockTree, findSection, getSections, insertAfterLastTodo, walkTree } from "utils/block-tree";
+import { textBlock } from "utils/markdown-blocks";
+import { queryDatabase, where } from "utils/notion-gateway";
 import { logger } from "utils/logger";
-import { createAIClient, type AIClient } from "utils/ai";
+import { readCheckbox, readDate, readRelation, readTitle, readMultiSelect } from "utils/properties";
+import { parseJsonResponse } from "utils/ai";
+import { createAIClient, type AIClient } from "utils/ai-providers";
+import { isAIBudgetExceeded } from "utils/ai-usage";
+import { renderPrompt } from "utils/prompt";
+import { validateSchema } from "utils/schema";
+import { runBatch } from "utils/batch";
+// Config
+import { AI_CONFIG, MEAL_PLANNER_SCHEMA, MEALS_SCHEMA, SHOPPING_HELPER_SCHEMA } from "./config";
 // Types
-import type { 
-  PageObjectResponse,
-  BlockObjectResponse,
-} from "@notionhq/client/build/src/api-endpoints";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { BlockTree } from "utils/block-tree";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
 
 const NOTION_TOKEN = process.env.NOTION_TOKEN;
 const MEAL_PLANNER_DATABASE_ID = process.env.MEAL_PLANNER_DATABASE_ID;
@@ -57,7 +69,7 @@ if (!ASIAN_SUPERMARKET_LIST_PAGE_ID) {
 }
 
 const notion = createNotionClient(NOTION_TOKEN);
-const ai: AIClient = await createAIClient();
+const ai: AIClient = await createAIClient("manage-shopping", AI_CONFIG);
 
 interface Meal {
   id: string;
@@ -81,85 +93,22 @@ type ShoppingListType = 'grocery' | 'turkish' | 'asian';
 
 // Get meals for the next 7 days by querying the meal planner and following relations
 const getUpcomingMeals = async (): Promise<Meal[]> => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const sevenDaysFromNow = new Date(today);
-  sevenDaysFromNow.setDate(today.getDate() + 7);
-
   // Query the Meal Planner database for the next 7 days
-  const response = await fetch(
-    `https://api.notion.com/v1/databases/${MEAL_PLANNER_DATABASE_ID}/query`,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${NOTION_TOKEN}`,
-        "Notion-Version": "2022-06-28",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        filter: {
-          and: [
-            {
-              property: "Date",
-              date: {
-                on_or_after: today.toISOString().split('T')[0],
-              },
-            },
-            {
-              property: "Date",
-              date: {
-                before: sevenDaysFromNow.toISOString().split('T')[0],
-              },
-            },
-          ],
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Failed to query meal planner database: ${error.message}`);
-  }
-
-  const data = await response.json();
-  const plannerPages = data.results.filter(
-    (page: unknown): page is PageObjectResponse => {
-      return typeof page === "object" && page !== null && "properties" in page;
-    }
-  );
+  const plannerPages = await queryDatabase(NOTION_TOKEN, MEAL_PLANNER_DATABASE_ID)
+    .filter(where.date("Date").withinNextDays(7))
+    .all();
 
   // Collect all meal IDs from Breakfast, Lunch, and Dinner relations
   const mealIds = new Set<string>();
   const mealIdToDate = new Map<string, string>();
 
   for (const page of plannerPages) {
-    const dateProperty = page.properties.Date;
-    const date = dateProperty?.type === "date" ? dateProperty.date?.start || "" : "";
-
-    const breakfastProp = page.properties.Breakfast;
-    const lunchProp = page.properties.Lunch;
-    const dinnerProp = page.properties.Dinner;
-
-    if (breakfastProp?.type === "relation") {
-      for (const rel of breakfastProp.relation) {
-        mealIds.add(rel.id);
-        mealIdToDate.set(rel.id, date);
-      }
-    }
+    const date = readDate(page, "Date")?.start || "";
 
-    if (lunchProp?.type === "relation") {
-      for (const rel of lunchProp.relation) {
-        mealIds.add(rel.id);
-        mealIdToDate.set(rel.id, date);
-      }
-    }
-
-    if (dinnerProp?.type === "relation") {
-      for (const rel of dinnerProp.relation) {
-        mealIds.add(rel.id);
-        mealIdToDate.set(rel.id, date);
+    for (const slot of ["Breakfast", "Lunch", "Dinner"]) {
+      for (const id of readRelation(page, slot)) {
+        mealIds.add(id);
+        mealIdToDate.set(id, date);
       }
     }
   }
@@ -180,16 +129,8 @@ const getUpcomingMeals = async (): Promise<Meal[]> => {
         continue;
       }
 
-      const nameProperty = mealPage.properties.Name;
-      const ingredientsProperty = mealPage.properties.Ingredients;
-
-      const name = nameProperty?.type === "title"
-        ? nameProperty.title[0]?.plain_text || ""
-        : "";
-
-      const ingredients = ingredientsProperty?.type === "multi_select"
-        ? ingredientsProperty.multi_select.map((i) => i.name)
-        : [];
+      const name = readTitle(mealPage, "Name") || "";
+      const ingredients = readMultiSelect(mealPage, "Ingredients");
 
       const date = mealIdToDate.get(mealId) || "";
 
@@ -211,36 +152,12 @@ const getHelperItems = async (): Promise<HelperItem[]> => {
   return pages
     .filter((page): page is PageObjectResponse => "properties" in page)
     .map((page) => {
-      const itemProperty = page.properties.Item;
-      const groceryCheckboxProperty = page.properties["Add to shopping list"];
-      const turkishCheckboxProperty = page.properties["Add to Turkish supermarket shopping list"];
-      const asianCheckboxProperty = page.properties["Add to Asian supermarket shopping list"];
-      const deleteProperty = page.properties.Delete;
-      const mealProperty = page.properties.Meal;
-
-      const item = itemProperty?.type === "title"
-        ? itemProperty.title[0]?.plain_text || ""
-        : "";
-
-      const addToShoppingList = groceryCheckboxProperty?.type === "checkbox"
-        ? groceryCheckboxProperty.checkbox
-        : false;
-
-      const addToTurkishList = turkishCheckboxProperty?.type === "checkbox"
-        ? turkishCheckboxProperty.checkbox
-        : false;
-
-      const addToAsianList = asianCheckboxProperty?.type === "checkbox"
-        ? asianCheckboxProperty.checkbox
-        : false;
-
-      const deleteFlag = deleteProperty?.type === "checkbox"
-        ? deleteProperty.checkbox
-        : false;
-
-      const mealId = mealProperty?.type === "relation"
-        ? mealProperty.relation[0]?.id
-        : undefined;
+      const item = readTitle(page, "Item") || "";
+      const addToShoppingList = readCheckbox(page, "Add to shopping list");
+      const addToTurkishList = readCheckbox(page, "Add to Turkish supermarket shopping list");
+      const addToAsianList = readCheckbox(page, "Add to Asian supermarket shopping list");
+      const deleteFlag = readCheckbox(page, "Delete");
+      const mealId = readRelation(page, "Meal")[0];
 
       const createdTime = page.created_time;
 
@@ -274,38 +191,42 @@ const populateHelperDatabase = async (
     }
   }
 
-  // Track which items we've archived
-  const archivedItemIds = new Set<string>();
-
   // Delete items that meet any of these criteria:
   // 1. Related to meals no longer in the next 7 days
   // 2. Older than 7 days AND not checked for any shopping list
   // 3. Marked as "Delete" AND older than 7 days AND NOT needed for upcoming meals
-  for (const item of existingItems) {
+  const itemsToRemove = existingItems.filter((item) => {
     const itemCreatedDate = new Date(item.createdTime);
     const isOlderThan7Days = itemCreatedDate < sevenDaysAgo;
     const isCheckedForAnyList = item.addToShoppingList || item.addToTurkishList || item.addToAsianList;
     const isStillNeeded = upcomingIngredients.has(item.item.toLowerCase());
     
-    const shouldDelete = 
+    return (
       (item.mealId && !currentMealIds.has(item.mealId)) ||
       (isOlderThan7Days && !isCheckedForAnyList) ||
-      (item.delete && isOlderThan7Days && !isStillNeeded);  // <-- KEY CHANGE
+      (item.delete && isOlderThan7Days && !isStillNeeded)  // <-- KEY CHANGE
+    );
+  });
 
-    if (shouldDelete) {
+  const removal = await runBatch(
+    itemsToRemove,
+    async (item) => {
       await notion.pages.update({
         page_id: item.id,
         archived: true,
       });
-      archivedItemIds.add(item.id);
       logger.info("Removed item", { 
         item: item.item,
         reason: item.delete ? "marked for deletion (>7 days, not needed)" : 
-                isOlderThan7Days ? "older than 7 days" : 
+                new Date(item.createdTime) < sevenDaysAgo ? "older than 7 days" : 
                 "meal no longer upcoming"
       });
-    }
-  }
+    },
+    { label: "Remove helper items", describe: (item) => item.item }
+  );
+
+  // Track which items we've archived
+  const archivedItemIds = new Set(removal.succeeded.map(({ item }) => item.id));
 
   // Create a set of existing item names (excluding archived ones)
   const existingItemNames = new Set(
@@ -328,68 +249,53 @@ const populateHelperDatabase = async (
   }
 
   // Add new ingredients
-  for (const [_, { meal, ingredient }] of ingredientsToAdd) {
-    await notion.pages.create({
-      parent: { database_id: SHOPPING_HELPER_DATABASE_ID },
-      properties: {
-        Item: {
-          title: [{ text: { content: ingredient } }],
-        },
-        "Add to shopping list": {
-          checkbox: false,
-        },
-        "Add to Turkish supermarket shopping list": {
-          checkbox: false,
+  const additions = await runBatch(
+    [...ingredientsToAdd.values()],
+    async ({ meal, ingredient }) => {
+      await notion.pages.create({
+        parent: { database_id: SHOPPING_HELPER_DATABASE_ID },
+        properties: {
+          Item: {
+            title: [{ text: { content: ingredient } }],
+          },
+          "Add to shopping list": {
+            checkbox: false,
+          },
+          "Add to Turkish supermarket shopping list": {
+            checkbox: false,
+          },
+          "Add to Asian supermarket shopping list": {
+            checkbox: false,
+          },
+          Delete: {
+            checkbox: false,
+          },
+          Meal: {
+            relation: [{ id: meal.id }],
+          },
         },
-        "Add to Asian supermarket shopping list": {
-          checkbox: false,
-        },
-        Delete: {
-          checkbox: false,
-        },
-        Meal: {
-          relation: [{ id: meal.id }],
-        },
-      },
-    });
-    logger.info("Added ingredient to helper", { ingredient, meal: meal.name });
-  }
+      });
+      logger.info("Added ingredient to helper", { ingredient, meal: meal.name });
+    },
+    { label: "Add helper items", describe: ({ ingredient }) => ingredient }
+  );
 
-  if (ingredientsToAdd.size > 0) {
-    logger.success("Added new ingredients", { count: ingredientsToAdd.size });
+  if (additions.succeeded.length > 0) {
+    logger.success("Added new ingredients", { count: additions.succeeded.length });
   }
 };
 
 // Get existing shopping list headings
-const getShoppingListHeadings = async (pageId: string): Promise<string[]> => {
-  const blocks = await getAllBlocks(notion, pageId);
-  const headings: string[] = [];
-
-  for (const block of blocks) {
-    if ("type" in block && block.type === "heading_2" && "heading_2" in block) {
-      const heading = (block as BlockObjectResponse & { type: "heading_2" }).heading_2;
-      const headingText = heading.rich_text?.[0];
-      if (headingText && "plain_text" in headingText) {
-        headings.push(headingText.plain_text);
-      }
-    }
-  }
+const getShoppingListHeadings = (tree: BlockTree): string[] =>
+  getSections(tree.children).map((section) => section.title);
 
-  return headings;
-};
-
-// Get existing shopping list items (all unchecked to-dos across all headings)
-const getExistingShoppingListItems = async (pageId: string): Promise<Set<string>> => {
-  const blocks = await getAllBlocks(notion, pageId);
+// Get existing shopping list items (all unchecked to-dos, including nested ones)
+const getExistingShoppingListItems = (tree: BlockTree): Set<string> => {
   const existingItems = new Set<string>();
 
-  for (const block of blocks) {
-    if ("type" in block && block.type === "to_do" && "to_do" in block) {
-      const todo = (block as BlockObjectResponse & { type: "to_do" }).to_do;
-      const itemText = todo.rich_text?.[0];
-      if (itemText && "plain_text" in itemText && !todo.checked) {
-        existingItems.add(itemText.plain_text.toLowerCase());
-      }
+  for (const node of walkTree(tree.children)) {
+    if (node.type === "to_do" && !node.block.to_do.checked && node.text) {
+      existingItems.add(node.text.toLowerCase());
     }
   }
 
@@ -401,139 +307,69 @@ const categorizeItems = async (
   items: string[],
   headings: string[]
 ): Promise<Record<string, string[]>> => {
-  const prompt = `You are organizing a shopping list. Given these items and existing category headings, assign each item to the most appropriate heading.
-
-Items to categorize:
-${items.map((item, i) => `${i + 1}. ${item}`).join("\n")}
-
-Existing headings:
-${headings.map((h, i) => `${i + 1}. ${h}`).join("\n")}
-
-Rules:
-- Assign each item to exactly one existing heading
-- Use common sense (e.g., "Chicken" → "Meat & Fish", "Milk" → "Dairy")
-- If an item could fit multiple categories, choose the most specific one
-- Do NOT create new headings
-
-Respond with ONLY valid JSON (no markdown):
-{
-  "categorized": {
-    "Heading Name": ["item1", "item2"],
-    "Another Heading": ["item3"]
-  }
-}`;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    generationConfig: {
-      response_mime_type: "application/json",
-    },
-  });
-
-  let cleanedText = response.text.trim();
-  if (cleanedText.startsWith("```json")) {
-    cleanedText = cleanedText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-  } else if (cleanedText.startsWith("```")) {
-    cleanedText = cleanedText.replace(/^```\s*/, "").replace(/\s*```$/, "");
-  }
+  const prompt = await renderPrompt(
+    { dir: __dirname, workflow: "manage-shopping" },
+    {
+      ITEMS_LIST: items.map((item, i) => `${i + 1}. ${item}`).join("\n"),
+      HEADINGS_LIST: headings.map((h, i) => `${i + 1}. ${h}`).join("\n"),
+    }
+  );
 
-  const parsed = JSON.parse(cleanedText);
-  return parsed.categorized as Record<string, string[]>;
+  const response = await ai.generate(prompt, { json: true, itemType: "shopping item" });
+  const parsed = parseJsonResponse(response.text) as { categorized: Record<string, string[]> };
+  return parsed.categorized;
 };
 
 // Add items to shopping list under appropriate headings
 const addItemsToShoppingList = async (
   categorized: Record<string, string[]>,
-  pageId: string
+  tree: BlockTree
 ): Promise<void> => {
-  const blocks = await getAllBlocks(notion, pageId);
-
   for (const [heading, items] of Object.entries(categorized)) {
-    // Find the heading block
-    let headingBlockId: string | null = null;
-    let headingIndex = -1;
-
-    for (let i = 0; i < blocks.length; i++) {
-      const block = blocks[i];
-      if ("type" in block && block.type === "heading_2" && "heading_2" in block) {
-        const h = (block as BlockObjectResponse & { type: "heading_2" }).heading_2;
-        const headingText = h.rich_text?.[0];
-        if (headingText && "plain_text" in headingText && headingText.plain_text === heading) {
-          headingBlockId = block.id;
-          headingIndex = i;
-          break;
-        }
-      }
-    }
+    const section = findSection(tree.children, heading);
 
-    if (!headingBlockId) {
+    if (!section) {
       logger.warn("Heading not found, skipping items", { heading, items });
       continue;
     }
 
-    // Find the next block after the heading that's NOT a to_do (or end of list)
-    // We want to insert before the next heading or other non-todo block
-    let insertBeforeBlockId: string | null = null;
-    
-    for (let i = headingIndex + 1; i < blocks.length; i++) {
-      const block = blocks[i];
-      if ("type" in block && block.type !== "to_do") {
-        insertBeforeBlockId = block.id;
-        break;
-      }
-    }
+    const todoBlocks = items.map((item) =>
+      textBlock("to_do", item, { checked: false })
+    );
 
-    // Create todo blocks
-    const todoBlocks = items.map((item) => ({
-      object: "block" as const,
-      type: "to_do" as const,
-      to_do: {
-        rich_text: [{ type: "text" as const, text: { content: item } }],
-        checked: false,
-      },
-    }));
-
-    // If we found a block to insert before, use that; otherwise append to the page
-    if (insertBeforeBlockId) {
-      // Insert before the next block
-      for (const todoBlock of todoBlocks) {
-        await notion.blocks.children.append({
-          block_id: pageId,
-          children: [todoBlock],
-          after: headingBlockId,
-        });
-      }
-    } else {
-      // Append to the end of the page (after heading)
-      await notion.blocks.children.append({
-        block_id: pageId,
-        children: todoBlocks,
-      });
-    }
+    // Keep the items inside their section, below anything already listed
+    await insertAfterLastTodo(notion, tree, section, todoBlocks);
 
     logger.success("Added items to shopping list", { heading, count: items.length });
   }
 };
 
+interface ShoppingListResult {
+  added: number;
+  // Items left unhandled because the AI budget ran out
+  deferred: HelperItem[];
+}
+
 // Process items for a specific shopping list type
 const processShoppingList = async (
   items: HelperItem[],
   listType: ShoppingListType,
   pageId: string
-): Promise<number> => {
+): Promise<ShoppingListResult> => {
   const listName = listType === 'grocery' ? 'grocery' : 
                    listType === 'turkish' ? 'Turkish' : 'Asian';
 
   if (items.length === 0) {
     logger.info(`No items checked for ${listName} shopping list`);
-    return 0;
+    return { added: 0, deferred: [] };
   }
 
   logger.info(`Found items for ${listName} list`, { count: items.length });
 
+  const tree = await fetchBlockTree(notion, pageId);
+
   // Get existing shopping list items to avoid duplicates
-  const existingShoppingListItems = await getExistingShoppingListItems(pageId);
+  const existingShoppingListItems = getExistingShoppingListItems(tree);
   
   // Filter out items that already exist on the shopping list
   const newItemsToAdd = items.filter(
@@ -542,7 +378,7 @@ const processShoppingList = async (
 
   if (newItemsToAdd.length === 0) {
     logger.info(`All checked items already exist on ${listName} shopping list`);
-    return 0;
+    return { added: 0, deferred: [] };
   }
 
   logger.info(`Items to add to ${listName} shopping list`, { 
@@ -551,23 +387,34 @@ const processShoppingList = async (
     duplicate: items.length - newItemsToAdd.length
   });
 
-  const headings = await getShoppingListHeadings(pageId);
+  const headings = getShoppingListHeadings(tree);
   logger.info(`Found ${listName} shopping list headings`, { headings });
 
   const itemNames = newItemsToAdd.map((item) => item.item);
-  const categorized = await categorizeItems(itemNames, headings);
+  let categorized: Record<string, string[]>;
+  try {
+    categorized = await categorizeItems(itemNames, headings);
+  } catch (error) {
+    if (!isAIBudgetExceeded(error)) throw error;
+    logger.skip(`Not updating ${listName} shopping list - ${error.message}`, { items: itemNames });
+    return { added: 0, deferred: newItemsToAdd };
+  }
 
-  await addItemsToShoppingList(categorized, pageId);
+  await addItemsToShoppingList(categorized, tree);
 
   logger.success(`${listName} shopping list updated`, {
     added: newItemsToAdd.length,
     skipped: items.length - newItemsToAdd.length,
   });
 
-  return newItemsToAdd.length;
+  return { added: newItemsToAdd.length, deferred: [] };
 };
 
 const run = async () => {
+  await validateSchema(NOTION_TOKEN, MEAL_PLANNER_DATABASE_ID, MEAL_PLANNER_SCHEMA, "meal planner");
+  await validateSchema(NOTION_TOKEN, MEALS_DATABASE_ID, MEALS_SCHEMA, "meals");
+  await validateSchema(NOTION_TOKEN, SHOPPING_HELPER_DATABASE_ID, SHOPPING_HELPER_SCHEMA, "shopping helper");
+
   // Step 1: Populate helper database with upcoming meal ingredients
   logger.info("Fetching upcoming meals (next 7 days)...");
   const upcomingMeals = await getUpcomingMeals();
@@ -582,44 +429,49 @@ const run = async () => {
   const turkishItems = existingHelperItems.filter((item) => item.addToTurkishList);
   const asianItems = existingHelperItems.filter((item) => item.addToAsianList);
 
-  let totalAdded = 0;
-
   // Process grocery list
-  totalAdded += await processShoppingList(
+  const grocery = await processShoppingList(
     groceryItems, 
     'grocery', 
     GROCERY_SHOPPING_LIST_PAGE_ID
   );
 
   // Process Turkish supermarket list
-  totalAdded += await processShoppingList(
+  const turkish = await processShoppingList(
     turkishItems, 
     'turkish', 
     TURKISH_SUPERMARKET_LIST_PAGE_ID
   );
 
   // Process Asian supermarket list
-  totalAdded += await processShoppingList(
+  const asian = await processShoppingList(
     asianItems, 
     'asian', 
     ASIAN_SUPERMARKET_LIST_PAGE_ID
   );
 
+  const results = [grocery, turkish, asian];
+  const totalAdded = results.reduce((sum, result) => sum + result.added, 0);
+  // Deferred items stay ticked in the helper database for the next run
+  const deferredIds = new Set(results.flatMap((result) => result.deferred.map((item) => item.id)));
+
   // Delete ALL checked items from helper database (from any list)
   const allCheckedItems = existingHelperItems.filter(
-    (item) => item.addToShoppingList || item.addToTurkishList || item.addToAsianList
+    (item) =>
+      (item.addToShoppingList || item.addToTurkishList || item.addToAsianList) &&
+      !deferredIds.has(item.id)
   );
 
-  for (const item of allCheckedItems) {
-    await notion.pages.update({
-      page_id: item.id,
-      archived: true,
-    });
-  }
+  await runBatch(
+    allCheckedItems,
+    (item) => notion.pages.update({ page_id: item.id, archived: true }),
+    { label: "Archive processed helper items", describe: (item) => item.item }
+  );
 
   logger.success("Shopping helper workflow complete", {
     totalAdded,
     itemsProcessed: allCheckedItems.length,
+    ...(deferredIds.size && { itemsDeferred: deferredIds.size }),
   });
 };
 
@@ -0,0 +1,19 @@
+import { PROVENANCE_SCHEMA } from "utils/provenance";
+import type { DatabaseSchema } from "utils/schema";
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  Name: { type: "title" },
+  Type: { type: "select", options: ["Film", "TV Series"] },
+  Overview: { type: "rich_text" },
+  Year: { type: "number" },
+  "Runtime (Raw)": { type: "number" },
+  Genre: { type: "multi_select" },
+  "Director(s)": { type: "rich_text" },
+  "Writer(s)": { type: "rich_text" },
+  Country: { type: "rich_text" },
+  "IMDB ID": { type: "rich_text" },
+  "IMDB Score": { type: "number" },
+  "Tomatometer (Raw)": { type: "number" },
+  Metascore: { type: "number" },
+  ...PROVENANCE_SCHEMA,
+};
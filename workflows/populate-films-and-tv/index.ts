@@ -1,6 +1,12 @@
 import 'dotenv/config';
-import { createNotionClient, getAllPages, extractTitle } from "utils/notion";
+import { createNotionClient, extractTitle } from "utils/notion";
 import { logger } from "utils/logger";
+import { readMultiSelect, readNumber, readSelect, readText } from "utils/properties";
+import { recordProvenance } from "utils/provenance";
+import { validateSchema } from "utils/schema";
+import { syncPages } from "utils/sync-cursor";
+import { runBatch } from "utils/batch";
+import { DATABASE_SCHEMA } from "./config";
 import type { UpdatePageParameters } from "@notionhq/client/build/src/api-endpoints";
 
 const NOTION_TOKEN = process.env.NOTION_TOKEN;
@@ -28,6 +34,12 @@ if (!OMDB_API_KEY) {
 
 const notion = createNotionClient(NOTION_TOKEN);
 
+// Everything else comes from TMDB unless it was read off the page itself, like
+// a year taken from the title; the title is only ever given a year
+const OMDB_PROPERTIES = ["IMDB Score", "Tomatometer (Raw)", "Metascore"];
+const TITLE_SOURCE = "title";
+const UNTRACKED_PROPERTIES = ["Name"];
+
 // Type definitions for OMDB API
 interface OMDBRating {
   Source: string;
@@ -211,6 +223,12 @@ const fetchOMDBData = async (imdbId: string): Promise<OMDBResult> => {
   }
 };
 
+// TMDB answers errors with JSON too, which would otherwise read as "no results"
+const readTMDBResponse = async <T>(response: Response): Promise<T> => {
+  if (!response.ok) throw new Error(`TMDB responded with ${response.status}`);
+  return await response.json() as T;
+};
+
 const fetchTMDBData = async (
   title: string, 
   year?: number, 
@@ -240,7 +258,7 @@ const fetchTMDBData = async (
       const findResponse = await fetch(
         `https://api.themoviedb.org/3/find/${existingImdbId}?api_key=${TMDB_API_KEY}&external_source=imdb_id`
       );
-      const findData = await findResponse.json() as TMDBFindResponse;
+      const findData = await readTMDBResponse<TMDBFindResponse>(findResponse);
       
       let result: TMDBSearchResult | undefined;
       let mediaType: 'movie' | 'tv' | undefined;
@@ -259,7 +277,7 @@ const fetchTMDBData = async (
         const detailsResponse = await fetch(
           `https://api.themoviedb.org/3/${mediaType}/${result.id}?api_key=${TMDB_API_KEY}&append_to_response=credits`
         );
-        const details = await detailsResponse.json() as TMDBMovieDetails | TMDBTVDetails;
+        const details = await readTMDBResponse<TMDBMovieDetails | TMDBTVDetails>(detailsResponse);
         
         // Extract runtime (only for movies, not TV shows)
         let runtime: number | null = null;
@@ -343,7 +361,7 @@ const fetchTMDBData = async (
       const response = await fetch(
         `https://api.themoviedb.org/3/search/movie?api_key=${TMDB_API_KEY}&query=${searchQuery}${yearParam}`
       );
-      const data = await response.json() as TMDBSearchResponse;
+      const data = await readTMDBResponse<TMDBSearchResponse>(response);
       if (data.results && data.results.length > 0) {
         allResults = data.results.map((r) => ({ ...r, mediaType: 'movie' as const }));
       }
@@ -354,7 +372,7 @@ const fetchTMDBData = async (
       const response = await fetch(
         `https://api.themoviedb.org/3/search/tv?api_key=${TMDB_API_KEY}&query=${searchQuery}${yearParam}`
       );
-      const data = await response.json() as TMDBSearchResponse;
+      const data = await readTMDBResponse<TMDBSearchResponse>(response);
       if (data.results && data.results.length > 0) {
         allResults = data.results.map((r) => ({ ...r, mediaType: 'tv' as const }));
       }
@@ -373,7 +391,7 @@ const fetchTMDBData = async (
               const detailsResponse = await fetch(
                 `https://api.themoviedb.org/3/${r.mediaType}/${r.id}?api_key=${TMDB_API_KEY}`
               );
-              const details = await detailsResponse.json() as TMDBMovieDetails | TMDBTVDetails;
+              const details = await readTMDBResponse<TMDBMovieDetails | TMDBTVDetails>(detailsResponse);
               const genres = details.genres?.map((genre) => genre.name) || [];
               
               // Get result year
@@ -438,7 +456,7 @@ const fetchTMDBData = async (
               const detailsResponse = await fetch(
                 `https://api.themoviedb.org/3/${r.mediaType}/${r.id}?api_key=${TMDB_API_KEY}`
               );
-              const details = await detailsResponse.json() as TMDBMovieDetails | TMDBTVDetails;
+              const details = await readTMDBResponse<TMDBMovieDetails | TMDBTVDetails>(detailsResponse);
               
               // Get result year
               const resultYear = r.mediaType === 'movie' && 'release_date' in details && details.release_date
@@ -491,7 +509,7 @@ const fetchTMDBData = async (
       const detailsResponse = await fetch(
         `https://api.themoviedb.org/3/${mediaType}/${result.id}?api_key=${TMDB_API_KEY}&append_to_response=credits`
       );
-      const details = await detailsResponse.json() as TMDBMovieDetails | TMDBTVDetails;
+      const details = await readTMDBResponse<TMDBMovieDetails | TMDBTVDetails>(detailsResponse);
       
       // Extract runtime (only for movies, not TV shows)
       let runtime: number | null = null;
@@ -564,25 +582,17 @@ const fetchTMDBData = async (
       year: null
     };
   } catch (err) {
-    logger.warn(`Failed to fetch TMDB data for "${title}"`);
-    return { 
-      posterUrl: null, 
-      overview: null, 
-      runtime: null,
-      genres: [],
-      directors: [],
-      writers: [],
-      countries: [],
-      imdbId: null,
-      type: null,
-      year: null
-    };
+    // Rethrown so the page counts as failed and is retried, not as not found
+    throw new Error(`Failed to fetch TMDB data for "${title}": ${err instanceof Error ? err.message : String(err)}`);
   }
 };
 
 const run = async () => {
-  logger.info("Fetching all pages from films database...");
-  const pages = await getAllPages(DATABASE_ID, NOTION_TOKEN);
+  await validateSchema(NOTION_TOKEN, DATABASE_ID, DATABASE_SCHEMA, "films");
+
+  logger.info("Fetching pages from films database...");
+  const sync = await syncPages(DATABASE_ID, NOTION_TOKEN);
+  const pages = sync.pages;
 
   logger.info("Pages retrieved", { count: pages.length });
 
@@ -590,69 +600,72 @@ const run = async () => {
   const needsMetadata = pages.filter(page => {
     const title = extractTitle(page);
     const yearInTitle = extractYearFromTitle(title);
-    const yearInProperty = page.properties.Year?.number;
+    const yearInProperty = readNumber(page, "Year");
     const titleMissingYear = !yearInTitle && yearInProperty;
     
     return (
       !page.cover || 
-      !page.properties.Overview?.rich_text?.[0]?.plain_text ||
-      !page.properties.Type?.select?.name ||
-      page.properties.Year?.number == null ||
-      page.properties['Runtime (Raw)']?.number == null ||
-      page.properties.Genre?.multi_select?.length === 0 ||
-      !page.properties['Director(s)']?.rich_text?.[0]?.plain_text ||
-      !page.properties['Writer(s)']?.rich_text?.[0]?.plain_text ||
-      !page.properties.Country?.rich_text?.[0]?.plain_text ||
-      !page.properties['IMDB ID']?.rich_text?.[0]?.plain_text ||
-      page.properties['IMDB Score']?.number == null ||
-      page.properties['Tomatometer (Raw)']?.number == null ||
-      page.properties['Metascore']?.number == null ||
+      !readText(page, "Overview") ||
+      !readSelect(page, "Type") ||
+      yearInProperty == null ||
+      readNumber(page, "Runtime (Raw)") == null ||
+      readMultiSelect(page, "Genre").length === 0 ||
+      !readText(page, "Director(s)") ||
+      !readText(page, "Writer(s)") ||
+      !readText(page, "Country") ||
+      !readText(page, "IMDB ID") ||
+      readNumber(page, "IMDB Score") == null ||
+      readNumber(page, "Tomatometer (Raw)") == null ||
+      readNumber(page, "Metascore") == null ||
       titleMissingYear
     );
   });
   
   if (needsMetadata.length === 0) {
     logger.info("All pages already have complete metadata!");
+    sync.commit();
     return;
   }
 
   logger.info(`Found ${needsMetadata.length} pages needing metadata`);
   
-  for (const page of needsMetadata) {
-    let title = extractTitle(page);
-    let year = extractYearFromTitle(title);
-    let titleNeedsUpdate = false;
-    
-    // If title doesn't have year but we can determine year from existing data, append it
-    if (!year && page.properties.Year?.number) {
-      const existingYear = page.properties.Year.number;
-      title = `${title} (${existingYear})`;
-      year = existingYear;
-      titleNeedsUpdate = true;
-    }
+  const report = await runBatch(
+    needsMetadata,
+    async (page) => {
+      let title = extractTitle(page);
+      let year = extractYearFromTitle(title);
+      let titleNeedsUpdate = false;
+    
+      // If title doesn't have year but we can determine year from existing data, append it
+      const existingYear = readNumber(page, "Year");
+      if (!year && existingYear) {
+        title = `${title} (${existingYear})`;
+        year = existingYear;
+        titleNeedsUpdate = true;
+      }
     
-    // Get existing Type and IMDB ID if present
-    const existingType = page.properties.Type?.select?.name;
-    const existingImdbId = page.properties['IMDB ID']?.rich_text?.[0]?.plain_text;
+      // Get existing Type and IMDB ID if present
+      const existingType = readSelect(page, "Type");
+      const existingImdbId = readText(page, "IMDB ID");
     
-    // Get existing genres if present (for better search disambiguation)
-    const existingGenres = page.properties.Genre?.multi_select?.map((genre: { name: string }) => genre.name) || [];
+      // Get existing genres if present (for better search disambiguation)
+      const existingGenres = readMultiSelect(page, "Genre");
     
-    logger.info(`Processing: ${title}${existingType ? ` [Type: ${existingType}]` : ''}${existingImdbId ? ` [IMDB: ${existingImdbId}]` : ''}${existingGenres.length > 0 ? ` [Genres: ${existingGenres.join(', ')}]` : ''}`);
+      logger.info(`Processing: ${title}${existingType ? ` [Type: ${existingType}]` : ''}${existingImdbId ? ` [IMDB: ${existingImdbId}]` : ''}${existingGenres.length > 0 ? ` [Genres: ${existingGenres.join(', ')}]` : ''}`);
     
-    const tmdbData = await fetchTMDBData(title, year, existingImdbId, existingType, existingGenres);
+      const tmdbData = await fetchTMDBData(title, year, existingImdbId, existingType, existingGenres);
     
-    if (!tmdbData.type && !existingType) {
-      logger.warn(`Could not find TMDB data for ${title}`);
-      await new Promise(resolve => setTimeout(resolve, 300));
-      continue;
-    }
+      if (!tmdbData.type && !existingType) {
+        logger.warn(`Could not find TMDB data for ${title}`);
+        return;
+      }
     
-    const additionalUpdates: UpdatePageParameters['properties'] = {};
+      const additionalUpdates: UpdatePageParameters['properties'] = {};
+      // Sources for values that did not come from TMDB or OMDb
+      const localSources: Record<string, string> = {};
     
-    // Set cover if needed
-    if (!page.cover && tmdbData.posterUrl) {
-      try {
+      // Set cover if needed
+      if (!page.cover && tmdbData.posterUrl) {
         await notion.pages.update({
           page_id: page.id,
           cover: {
@@ -661,145 +674,150 @@ const run = async () => {
           }
         });
         logger.success(`✓ Set cover image for ${title}`);
-      } catch (err) {
-        logger.warn(`Failed to set cover for ${title}`, { error: err instanceof Error ? err : undefined });
       }
-    }
     
-    // Type - only set if not already set
-    const hasType = page.properties.Type?.select?.name;
-    if (!hasType && tmdbData.type) {
-      additionalUpdates.Type = { select: { name: tmdbData.type } };
-    }
+      // Type - only set if not already set
+      const hasType = existingType;
+      if (!hasType && tmdbData.type) {
+        additionalUpdates.Type = { select: { name: tmdbData.type } };
+      }
     
-    // Overview
-    const hasOverview = page.properties.Overview?.rich_text?.[0]?.plain_text;
-    if (!hasOverview && tmdbData.overview) {
-      additionalUpdates.Overview = {
-        rich_text: [{ text: { content: tmdbData.overview } }]
-      };
-    }
+      // Overview
+      const hasOverview = readText(page, "Overview");
+      if (!hasOverview && tmdbData.overview) {
+        additionalUpdates.Overview = {
+          rich_text: [{ text: { content: tmdbData.overview } }]
+        };
+      }
     
-    // Year - use TMDB data or extracted year from title
-    const hasYear = page.properties.Year?.number != null;
-    if (!hasYear) {
-      const yearToUse = tmdbData.year || year;
-      if (yearToUse) {
-        additionalUpdates.Year = { number: yearToUse };
-        // If we're setting the year for the first time and title doesn't have it, mark for update
-        if (!extractYearFromTitle(extractTitle(page))) {
-          title = `${extractTitle(page)} (${yearToUse})`;
-          titleNeedsUpdate = true;
+      // Year - use TMDB data or extracted year from title
+      const hasYear = existingYear != null;
+      if (!hasYear) {
+        const yearToUse = tmdbData.year || year;
+        if (yearToUse) {
+          additionalUpdates.Year = { number: yearToUse };
+          if (!tmdbData.year) localSources.Year = TITLE_SOURCE;
+          // If we're setting the year for the first time and title doesn't have it, mark for update
+          if (!extractYearFromTitle(extractTitle(page))) {
+            title = `${extractTitle(page)} (${yearToUse})`;
+            titleNeedsUpdate = true;
+          }
         }
       }
-    }
     
-    // Runtime (only for films, skip for TV Series)
-    const currentType = hasType || tmdbData.type;
-    const hasRuntime = page.properties['Runtime (Raw)']?.number != null;
-    if (!hasRuntime && tmdbData.runtime && currentType === 'Film') {
-      additionalUpdates['Runtime (Raw)'] = { number: tmdbData.runtime };
-    }
+      // Runtime (only for films, skip for TV Series)
+      const currentType = hasType || tmdbData.type;
+      const hasRuntime = readNumber(page, "Runtime (Raw)") != null;
+      if (!hasRuntime && tmdbData.runtime && currentType === 'Film') {
+        additionalUpdates['Runtime (Raw)'] = { number: tmdbData.runtime };
+      }
     
-    // Genre - merge with existing genres
-    const hasGenre = page.properties.Genre?.multi_select?.length ?? 0 > 0;
-    if (!hasGenre && tmdbData.genres.length > 0) {
-      additionalUpdates.Genre = {
-        multi_select: tmdbData.genres.map((genre: string) => ({ name: genre }))
-      };
-    } else if (hasGenre && tmdbData.genres.length > 0) {
-      // Merge: keep existing genres and add new ones that don't exist
-      const existingGenreNames = existingGenres.map((genre: string) => genre.toLowerCase());
-      const newGenres = tmdbData.genres.filter((genre: string) => 
-        !existingGenreNames.includes(genre.toLowerCase())
-      );
-      if (newGenres.length > 0) {
+      // Genre - merge with existing genres
+      const hasGenre = existingGenres.length > 0;
+      if (!hasGenre && tmdbData.genres.length > 0) {
         additionalUpdates.Genre = {
-          multi_select: [...existingGenres.map((genre: string) => ({ name: genre })), ...newGenres.map((genre: string) => ({ name: genre }))]
+          multi_select: tmdbData.genres.map((genre: string) => ({ name: genre }))
         };
+      } else if (hasGenre && tmdbData.genres.length > 0) {
+        // Merge: keep existing genres and add new ones that don't exist
+        const existingGenreNames = existingGenres.map((genre: string) => genre.toLowerCase());
+        const newGenres = tmdbData.genres.filter((genre: string) => 
+          !existingGenreNames.includes(genre.toLowerCase())
+        );
+        if (newGenres.length > 0) {
+          additionalUpdates.Genre = {
+            multi_select: [...existingGenres.map((genre: string) => ({ name: genre })), ...newGenres.map((genre: string) => ({ name: genre }))]
+          };
+        }
       }
-    }
     
-    // Directors
-    const hasDirectors = page.properties['Director(s)']?.rich_text?.[0]?.plain_text;
-    if (!hasDirectors && tmdbData.directors.length > 0) {
-      additionalUpdates['Director(s)'] = {
-        rich_text: [{ text: { content: tmdbData.directors.join(', ') } }]
-      };
-    }
+      // Directors
+      const hasDirectors = readText(page, "Director(s)");
+      if (!hasDirectors && tmdbData.directors.length > 0) {
+        additionalUpdates['Director(s)'] = {
+          rich_text: [{ text: { content: tmdbData.directors.join(', ') } }]
+        };
+      }
     
-    // Writers
-    const hasWriters = page.properties['Writer(s)']?.rich_text?.[0]?.plain_text;
-    if (!hasWriters && tmdbData.writers.length > 0) {
-      additionalUpdates['Writer(s)'] = {
-        rich_text: [{ text: { content: tmdbData.writers.join(', ') } }]
-      };
-    }
+      // Writers
+      const hasWriters = readText(page, "Writer(s)");
+      if (!hasWriters && tmdbData.writers.length > 0) {
+        additionalUpdates['Writer(s)'] = {
+          rich_text: [{ text: { content: tmdbData.writers.join(', ') } }]
+        };
+      }
     
-    // Country
-    const hasCountry = page.properties.Country?.rich_text?.[0]?.plain_text;
-    if (!hasCountry && tmdbData.countries.length > 0) {
-      additionalUpdates.Country = {
-        rich_text: [{ text: { content: tmdbData.countries.join(', ') } }]
-      };
-    }
+      // Country
+      const hasCountry = readText(page, "Country");
+      if (!hasCountry && tmdbData.countries.length > 0) {
+        additionalUpdates.Country = {
+          rich_text: [{ text: { content: tmdbData.countries.join(', ') } }]
+        };
+      }
     
-    // IMDB ID - only set if not already set
-    const hasImdbId = page.properties['IMDB ID']?.rich_text?.[0]?.plain_text;
-    if (!hasImdbId && tmdbData.imdbId) {
-      additionalUpdates['IMDB ID'] = {
-        rich_text: [{ text: { content: tmdbData.imdbId } }]
-      };
-    }
+      // IMDB ID - only set if not already set
+      const hasImdbId = existingImdbId;
+      if (!hasImdbId && tmdbData.imdbId) {
+        additionalUpdates['IMDB ID'] = {
+          rich_text: [{ text: { content: tmdbData.imdbId } }]
+        };
+      }
     
-    // Fetch OMDb data if we have an IMDB ID (existing or from TMDB)
-    const imdbIdToUse = hasImdbId || tmdbData.imdbId;
-    if (imdbIdToUse) {
-      const omdbData = await fetchOMDBData(imdbIdToUse);
+      // Fetch OMDb data if we have an IMDB ID (existing or from TMDB)
+      const imdbIdToUse = hasImdbId || tmdbData.imdbId;
+      if (imdbIdToUse) {
+        const omdbData = await fetchOMDBData(imdbIdToUse);
       
-      // IMDB Score
-      const hasImdbScore = page.properties['IMDB Score']?.number != null;
-      if (!hasImdbScore && omdbData.imdbRating) {
-        additionalUpdates['IMDB Score'] = { number: omdbData.imdbRating };
-      }
+        // IMDB Score
+        const hasImdbScore = readNumber(page, "IMDB Score") != null;
+        if (!hasImdbScore && omdbData.imdbRating) {
+          additionalUpdates['IMDB Score'] = { number: omdbData.imdbRating };
+        }
       
-      // Tomatometer
-      const hasTomatometer = page.properties['Tomatometer (Raw)']?.number != null;
-      if (!hasTomatometer && omdbData.tomatometer) {
-        additionalUpdates['Tomatometer (Raw)'] = { number: omdbData.tomatometer };
-      }
+        // Tomatometer
+        const hasTomatometer = readNumber(page, "Tomatometer (Raw)") != null;
+        if (!hasTomatometer && omdbData.tomatometer) {
+          additionalUpdates['Tomatometer (Raw)'] = { number: omdbData.tomatometer };
+        }
       
-      // Metascore
-      const hasMetascore = page.properties['Metascore']?.number == null;
-      if (!hasMetascore && omdbData.metascore) {
-        additionalUpdates['Metascore'] = { number: omdbData.metascore };
+        // Metascore
+        const hasMetascore = readNumber(page, "Metascore") != null;
+        if (!hasMetascore && omdbData.metascore) {
+          additionalUpdates['Metascore'] = { number: omdbData.metascore };
+        }
       }
-    }
     
-    // Add title update if needed
-    if (titleNeedsUpdate) {
-      additionalUpdates['Name'] = {
-        title: [{ text: { content: title } }]
-      };
-    }
+      // Add title update if needed
+      if (titleNeedsUpdate) {
+        additionalUpdates['Name'] = {
+          title: [{ text: { content: title } }]
+        };
+      }
     
-    // Update all properties at once
-    if (Object.keys(additionalUpdates).length > 0) {
-      try {
+      // Update all properties at once
+      if (Object.keys(additionalUpdates).length > 0) {
+        const sources = Object.fromEntries(
+          Object.keys(additionalUpdates)
+            .filter((property) => !UNTRACKED_PROPERTIES.includes(property))
+            .map((property) => [
+              property,
+              localSources[property] ?? (OMDB_PROPERTIES.includes(property) ? "OMDb" : "TMDB"),
+            ])
+        );
         await notion.pages.update({
           page_id: page.id,
-          properties: additionalUpdates
+          properties: recordProvenance(page, additionalUpdates, sources)
         });
         logger.success(`✓ Set fields for ${title}: ${Object.keys(additionalUpdates).join(', ')}`);
-      } catch (err) {
-        logger.warn(`Failed to set fields for ${title}`, { error: err instanceof Error ? err : undefined });
       }
-    }
-    
-    // Rate limit delay
-    await new Promise(resolve => setTimeout(resolve, 300));
-  }
+    },
+    { label: "Populate metadata", describe: (page) => extractTitle(page) }
+  );
   
+  // Leave the cursor alone so failed pages are picked up again next run
+  if (report.failed.length > 0) return;
+
+  sync.commit();
   logger.success("✅ All metadata complete!");
 };
 
@@ -0,0 +1,91 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+// Config
+import { DATABASE_SCHEMA } from "./config";
+// Types
+import type { FakeNotionSeed, FakePageSeed } from "utils/notion-fake";
+
+// Without API keys nothing is fetched, so the only writes move a year between
+// the title and the Year property
+const filmPage = (id: string, name: string, year?: number): FakePageSeed => ({
+  id,
+  parent: { database_id: "films" },
+  properties: {
+    Name: { title: [{ text: { content: name } }] },
+    Type: { select: { name: "Film" } },
+    ...(year && { Year: { number: year } }),
+  },
+});
+
+const FILMS_DATABASE = {
+  id: "films",
+  properties: Object.fromEntries(Object.entries(DATABASE_SCHEMA).map(([name, { type }]) => [name, { type }])),
+};
+
+const titleOf = (seed: FakeNotionSeed, id: string): string => {
+  const page = seed.pages?.find((candidate) => candidate.id === id);
+  const title = page?.properties?.Name as { title: Array<{ plain_text: string }> };
+  return title.title.map((item) => item.plain_text).join("");
+};
+
+const runFilms = (t: TestContext, seed: FakeNotionSeed) => {
+  const dir = mkdtempSync(join(tmpdir(), "films-test-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const seedPath = join(dir, "seed.json");
+  const outputPath = join(dir, "output.json");
+  const statePath = join(dir, "sync-state.json");
+  writeFileSync(seedPath, JSON.stringify(seed));
+
+  const result = spawnSync(process.execPath, ["--import", "tsx", "workflows/populate-films-and-tv/index.ts"], {
+    env: {
+      ...process.env,
+      NOTION_TOKEN: "test",
+      FILMS_DATABASE_ID: "films",
+      TMDB_API_KEY: "",
+      OMDB_API_KEY: "",
+      NOTION_FAKE_DATA: seedPath,
+      NOTION_FAKE_OUTPUT: outputPath,
+      NOTION_SYNC_STATE_PATH: statePath,
+      NOTION_JOURNAL: "off",
+    },
+    encoding: "utf-8",
+  });
+
+  return {
+    status: result.status,
+    log: result.stdout + result.stderr,
+    committed: existsSync(statePath),
+    output: JSON.parse(readFileSync(outputPath, "utf-8")) as FakeNotionSeed,
+  };
+};
+
+test("a failed page update fails the run and keeps the sync cursor", (t) => {
+  const { status, log, committed, output } = runFilms(t, {
+    databases: [FILMS_DATABASE],
+    pages: [filmPage("heat", "Heat", 1995), filmPage("up", "Up", 2009)],
+    failures: [{ method: "PATCH", path: "/pages/heat", status: 400 }],
+  });
+
+  assert.equal(status, 1, log);
+  assert.match(log, /Populate metadata failed for Heat/);
+  assert.match(log, /Populate metadata finished with failures \{"succeeded":1,"failed":1\}/);
+  assert.equal(committed, false);
+  assert.equal(titleOf(output, "heat"), "Heat");
+  assert.equal(titleOf(output, "up"), "Up (2009)");
+});
+
+test("a year read from the title is recorded with the title as its source", (t) => {
+  const { status, log, output } = runFilms(t, {
+    databases: [FILMS_DATABASE],
+    pages: [filmPage("alien", "Alien (1979)")],
+  });
+
+  assert.equal(status, 0, log);
+  const page = output.pages?.find((candidate) => candidate.id === "alien");
+  const filledBy = page?.properties?.["Filled by"] as { rich_text: Array<{ plain_text: string }> };
+  assert.match(filledBy.rich_text.map((item) => item.plain_text).join(""), /^Year \| title \| /);
+});
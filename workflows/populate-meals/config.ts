@@ -1,4 +1,10 @@
 import { PropertyBuilder, propertyBuilders } from "utils/parsing.js";
+import { schemaFromFieldMappings, type DatabaseSchema } from "utils/schema.js";
+import { responseSchemaFromFieldMappings } from "utils/response-schema.js";
+import { PROVENANCE_SCHEMA } from "utils/provenance.js";
+import { REFRESH_SCHEMA } from "utils/refresh.js";
+import type { AIConfig } from "utils/ai-providers.js";
+import type { BodySection } from "utils/page-body.js";
 
 export interface MealData extends Record<string, string> {
   ingredients: string; // Comma-separated for multi-select
@@ -15,4 +21,31 @@ export const FIELD_MAPPINGS: Array<
 > = [
   ["Ingredients", "ingredients", propertyBuilders.multiSelect],
   ["Cooking instructions", "cookingInstructions", propertyBuilders.richText],
-];
\ No newline at end of file
+];
+
+// Also written to the page body so the steps render as a numbered list
+export const BODY_SECTIONS: BodySection<MealData>[] = [
+  ["Cooking instructions", "cookingInstructions", "🍳 Cooking instructions"],
+];
+
+export const AI_CONFIG: AIConfig = {
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+};
+
+// Recipes are long, so keep each response well within the model's output limit
+export const CHUNK_SIZE = 5;
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  Name: { type: "title" },
+  Gallery: { type: "files" },
+  ...schemaFromFieldMappings(FIELD_MAPPINGS),
+  ...PROVENANCE_SCHEMA,
+  ...REFRESH_SCHEMA,
+};
+
+export const RESPONSE_SCHEMA = responseSchemaFromFieldMappings<MealData>(
+  "meals",
+  FIELD_MAPPINGS,
+  DATABASE_SCHEMA
+);
@@ -1,22 +1,33 @@
 import 'dotenv/config';
-import { readFile } from "node:fs/promises";
 import { fileURLToPath } from "node:url";
-import { dirname, join } from "node:path";
+import { dirname } from "node:path";
 // Utils
 import {
   createNotionClient,
-  getAllPages,
   extractTitle,
   hasEmptyProperties,
   buildPropertyUpdates,
   updatePage,
 } from "utils/notion.js";
-import { createAIClient, batchAnnotate, type AIClient } from "utils/ai.js";
+import { batchAnnotate, type PromptItem } from "utils/ai.js";
+import { createAIClient, describeAIClient, type AIClient } from "utils/ai-providers.js";
 import { logger } from "utils/logger.js";
+import { writeBodySections } from "utils/page-body.js";
+import { renderPrompt } from "utils/prompt.js";
+import { readMultiSelect } from "utils/properties.js";
+import { createRefreshPlan } from "utils/refresh.js";
+import { createReviewQueue } from "utils/review-queue.js";
+import { validateSchema } from "utils/schema.js";
+import { syncPages } from "utils/sync-cursor.js";
 // Config
 import {
   REQUIRED_PROPERTIES,
   FIELD_MAPPINGS,
+  BODY_SECTIONS,
+  AI_CONFIG,
+  RESPONSE_SCHEMA,
+  CHUNK_SIZE,
+  DATABASE_SCHEMA,
 } from "./config.js";
 // Types
 import type { MealData }from "./config.js";
@@ -38,62 +49,22 @@ if (!DATABASE_ID) {
 }
 
 const notion = createNotionClient(NOTION_TOKEN);
-const ai: AIClient = await createAIClient();
+const ai: AIClient = await createAIClient("populate-meals", AI_CONFIG);
 
-const buildPrompt = async (meals: string[], pages: PageObjectResponse[]): Promise<string> => {
-  const promptTemplate = await readFile(
-    join(__dirname, "prompt.md"),
-    "utf-8"
-  );
-  
-  const mealsList = meals.map((m, i) => {
-    const page = pages[i];
-    let entry = `${i + 1}. ${m}`;
+const buildPrompt = async (meals: PromptItem[]): Promise<string> => {
+  const mealsList = meals.map(({ key, name, page }) => {
+    let entry = `[${key}] ${name}`;
     
     // Add existing ingredients if present
-    const ingredients = page.properties.Ingredients;
-    if (ingredients?.multi_select?.length > 0) {
-      const existingIngredients = ingredients.multi_select
-        .map((tag: any) => tag.name)
-        .join(", ");
-      entry += `\n   Existing ingredients: ${existingIngredients}`;
+    const ingredients = readMultiSelect(page, "Ingredients");
+    if (ingredients.length > 0) {
+      entry += `\n   Existing ingredients: ${ingredients.join(", ")}`;
     }
     
     return entry;
   }).join("\n");
   
-  return promptTemplate.replace("{{MEALS_LIST}}", mealsList);
-};
-
-interface MealsResponse {
-  meals: MealData[];
-}
-
-type JsonValue = string | number | boolean | null | JsonObject | JsonArray;
-type JsonObject = { [key: string]: JsonValue };
-type JsonArray = JsonValue[];
-
-const isValidMealsResponse = (obj: unknown): obj is MealsResponse => {
-  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) return false;
-  
-  const response = obj as Record<string, JsonValue>;
-  if (!Array.isArray(response.meals)) return false;
-  
-  return response.meals.every((meal) => {
-    if (typeof meal !== "object" || meal === null || Array.isArray(meal)) return false;
-    const m = meal as Record<string, JsonValue>;
-    return (
-      typeof m.ingredients === "string" &&
-      typeof m.cookingInstructions === "string"
-    );
-  });
-};
-
-const parseResponse = (json: unknown): MealData[] => {
-  if (!isValidMealsResponse(json)) {
-    throw new Error("Response missing 'meals' array or invalid structure");
-  }
-  return json.meals;
+  return renderPrompt({ dir: __dirname, workflow: "populate-meals" }, { MEALS_LIST: mealsList });
 };
 
 const setCoverFromGallery = async (notion: any, page: any) => {
@@ -159,7 +130,7 @@ const updateCoversForAllPages = async (pages: PageObjectResponse[]) => {
     if (hadNoCover && !page.cover) {
       // Check if it was updated
       const updatedPage = await notion.pages.retrieve({ page_id: page.id });
-      if (updatedPage.cover) updated++;
+      if ("cover" in updatedPage && updatedPage.cover) updated++;
     }
   }
   
@@ -171,44 +142,73 @@ const updateCoversForAllPages = async (pages: PageObjectResponse[]) => {
 };
 
 const run = async () => {
-  logger.info("Fetching all pages from meals database...");
-  const pages = await getAllPages(DATABASE_ID, NOTION_TOKEN);
+  await validateSchema(NOTION_TOKEN, DATABASE_ID, DATABASE_SCHEMA, "meals");
+
+  const review = await createReviewQueue<MealData>({
+    notion,
+    token: NOTION_TOKEN,
+    workflow: "populate-meals",
+    fieldMappings: FIELD_MAPPINGS,
+    source: describeAIClient(ai),
+  });
+  // Approved suggestions land before syncing, so the pages count as filled
+  await review?.applyReviewed(async (pageId, updates, values) => {
+    await updatePage(notion, pageId, updates);
+    await writeBodySections(notion, pageId, values, Object.keys(updates), BODY_SECTIONS);
+  });
+
+  logger.info("Fetching pages from meals database...");
+  const sync = await syncPages(DATABASE_ID, NOTION_TOKEN);
+  const pages = sync.pages;
 
   logger.info("Pages retrieved", { count: pages.length });
 
   // First, update covers for all pages
   await updateCoversForAllPages(pages);
 
-  // Then check for meals that need AI completion
-  const eligible = pages.filter((page) =>
-    hasEmptyProperties(page, [...REQUIRED_PROPERTIES])
-  );
-  logger.info("Found meals with empty fields", { count: eligible.length });
+  // Then check for meals that need AI completion, or a refresh of fields filled earlier
+  const refresh = createRefreshPlan(FIELD_MAPPINGS.map(([property]) => property));
+  const eligible = pages.filter((page) => {
+    const notHeld = (property: string) => !review?.isHeld(page.id, property);
+    return hasEmptyProperties(page, REQUIRED_PROPERTIES.filter(notHeld)) || refresh.fieldsToRefresh(page).some(notHeld);
+  });
+  logger.info("Found meals with empty or refreshable fields", { count: eligible.length });
 
   if (!eligible.length) {
     logger.info("No meals need completion. All done!");
+    await refresh.clearFlags(notion, pages, new Set());
+    sync.commit();
     return;
   }
 
-  await batchAnnotate<MealData>(ai, {
+  const report = await batchAnnotate<MealData>(ai, {
     pages: eligible,
     extractName: extractTitle,
-    buildPrompt: (meals) => buildPrompt(meals, eligible),
-    parseResponse,
+    buildPrompt,
+    responseSchema: RESPONSE_SCHEMA,
     buildUpdates: (page, data) =>
-      buildPropertyUpdates(
-        page,
-        data,
-        FIELD_MAPPINGS
-      ),
-    updatePage: async (page, updates) => {
+      buildPropertyUpdates(page, data, FIELD_MAPPINGS, {
+        source: describeAIClient(ai),
+        overwrite: refresh.fieldsToRefresh(page),
+      }),
+    updatePage: async (page, updates, data) => {
       await updatePage(notion, page.id, updates);
+      await writeBodySections(notion, page.id, data, Object.keys(updates), BODY_SECTIONS);
       // Set cover from Gallery if available (for newly completed meals)
       await setCoverFromGallery(notion, page);
     },
+    review,
     itemType: "meal",
+    chunkSize: CHUNK_SIZE,
   });
 
+  // Only written or staged pages lose their flag; the rest are retried
+  await refresh.clearFlags(notion, pages, new Set([...report.updated, ...report.staged]));
+
+  // Leave the cursor alone so failed or deferred meals are picked up again next run
+  if (report.failed.length > 0 || report.deferred.length > 0) return;
+
+  sync.commit();
   logger.success("Meal completion complete");
 };
 
@@ -1,4 +1,5 @@
 import { propertyBuilders, type PropertyBuilder } from "utils/parsing";
+import { schemaFromFieldMappings, type DatabaseSchema } from "utils/schema";
 
 export interface PubData extends Record<string, string | number> {
   overview: string;
@@ -18,4 +19,10 @@ export const FIELD_MAPPINGS: Array<
   ["Overview", "overview", propertyBuilders.richText],
   ["Distance from station (metres)", "distanceFromStation", propertyBuilders.number],
   ["Route order", "routeOrder", propertyBuilders.number],
-];
\ No newline at end of file
+];
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  Pub: { type: "title" },
+  Location: { type: "place" },
+  ...schemaFromFieldMappings(FIELD_MAPPINGS),
+};
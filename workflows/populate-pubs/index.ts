@@ -6,11 +6,16 @@ import {
   createNotionClient,
   getAllPages,
   updatePage,
-  getAllBlocks,
 } from "utils/notion";
 import { logger } from "utils/logger";
+import { readPlace, readTitle } from "utils/properties";
+import { validateSchema } from "utils/schema";
+import { runBatch } from "utils/batch";
+import { writeManagedSection } from "utils/page-body";
+// Config
+import { DATABASE_SCHEMA } from "./config";
 // Types
-import type { PageObjectResponse, BlockObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import type { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -164,43 +169,6 @@ const optimizeRoute = (
   return route;
 };
 
-// Delete existing route blocks from the page
-const deleteExistingRouteBlocks = async (): Promise<void> => {
-  try {
-    logger.info("Fetching existing blocks...");
-    const blocks = await getAllBlocks(notion, PAGE_ID);
-    
-    for (let i = 0; i < blocks.length; i++) {
-      const block = blocks[i];
-      
-      // Look for our route heading
-      if ("type" in block && block.type === "heading_2" && "heading_2" in block) {
-        const heading = (block as BlockObjectResponse & { type: "heading_2" }).heading_2;
-        const headingText = heading.rich_text?.[0];
-        
-        if (headingText && "plain_text" in headingText && headingText.plain_text === "🗺️ Pub Crawl Route") {
-          logger.info("Found existing route heading, deleting...");
-          // Delete the heading
-          await notion.blocks.delete({ block_id: block.id });
-          
-          // Delete the next block (should be the bookmark)
-          if (i + 1 < blocks.length && "id" in blocks[i + 1]) {
-            await notion.blocks.delete({ block_id: blocks[i + 1].id });
-          }
-          
-          logger.info("Deleted existing route blocks");
-          return;
-        }
-      }
-    }
-    
-    logger.info("No existing route blocks found");
-  } catch (error) {
-    logger.error("Error in deleteExistingRouteBlocks:", error instanceof Error ? error : new Error(String(error)));
-    throw error;
-  }
-};
-
 // Generate Google Maps route URL and update the page
 const updatePageWithRoute = async (route: RouteResult[]): Promise<void> => {
   if (route.length === 0) {
@@ -227,35 +195,18 @@ const updatePageWithRoute = async (route: RouteResult[]): Promise<void> => {
     routeUrl += `&waypoints=${waypoints}`;
   }
 
-  // Delete old route blocks first
-  await deleteExistingRouteBlocks();
-  
-  // Update page with embedded bookmark to Google Maps route
-  await notion.blocks.children.append({
-    block_id: PAGE_ID,
-    children: [
-      {
-        object: "block",
-        type: "heading_2",
-        heading_2: {
-          rich_text: [{ type: "text", text: { content: "🗺️ Pub Crawl Route" } }]
-        }
-      },
-      {
-        object: "block",
-        type: "bookmark",
-        bookmark: {
-          url: routeUrl
-        }
-      }
-    ]
-  });
+  // Replaces the bookmark under the route heading, or adds the section
+  await writeManagedSection(notion, PAGE_ID, "🗺️ Pub Crawl Route", [
+    { object: "block", type: "bookmark", bookmark: { url: routeUrl } },
+  ]);
 
   logger.success("Added Google Maps route to page");
   logger.info("Route URL:", { url: routeUrl });
 };
 
 const run = async () => {
+  await validateSchema(PRIVATE_INTEGRATION_TOKEN, DATABASE_ID, DATABASE_SCHEMA, "pubs");
+
   logger.info("Fetching all pages from pubs database...");
   const pages = await getAllPages(DATABASE_ID, PRIVATE_INTEGRATION_TOKEN);
 
@@ -277,12 +228,7 @@ const run = async () => {
   const pubsWithCoords: PubWithCoords[] = [];
   
   for (const page of allPubs) {
-    const nameProperty = page.properties.Pub;
-    const locationProperty = page.properties.Location;
-    
-    const name = nameProperty?.type === "title" 
-      ? nameProperty.title[0]?.plain_text || ""
-      : "";
+    const name = readTitle(page, "Pub") || "";
     
     if (!name) {
       logger.warn("Skipping pub with no name");
@@ -290,9 +236,8 @@ const run = async () => {
     }
 
     // Extract coordinates from Place property
-    if (locationProperty?.type === "place" && locationProperty.place) {
-      const place = locationProperty.place;
-      
+    const place = readPlace(page, "Location");
+    if (place) {
       if (place.lat && place.lon) {
         const locationName = place.name || place.address || name;
         
@@ -309,7 +254,7 @@ const run = async () => {
         logger.warn(`  ✗ ${name}: Place property missing coordinates`);
       }
     } else {
-      logger.warn(`  ✗ ${name}: No Place property found`);
+      logger.warn(`  ✗ ${name}: Location is empty`);
     }
   }
 
@@ -326,15 +271,21 @@ const run = async () => {
 
   // Update Notion pages with route order and distance
   logger.info("Updating Notion pages with route information...");
-  for (const { pub, distanceFromStation, routeOrder } of route) {
-    await updatePage(notion, pub.page.id, {
-      "Route order": { number: routeOrder },
-      "Distance from station (metres)": { number: distanceFromStation }
-    });
-    logger.info(`  Updated ${pub.name}: order ${routeOrder}, ${distanceFromStation}m from station`);
-  }
+  const report = await runBatch(
+    route,
+    async ({ pub, distanceFromStation, routeOrder }) => {
+      await updatePage(notion, pub.page.id, {
+        "Route order": { number: routeOrder },
+        "Distance from station (metres)": { number: distanceFromStation }
+      });
+      logger.info(`  Updated ${pub.name}: order ${routeOrder}, ${distanceFromStation}m from station`);
+    },
+    { label: "Update pub pages", describe: ({ pub }) => pub.name }
+  );
 
-  logger.success("All pub pages updated");
+  if (report.failed.length === 0) {
+    logger.success("All pub pages updated");
+  }
 
   // Update the route map on the page
   logger.info("Updating pub crawl route map...");
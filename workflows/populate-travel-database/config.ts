@@ -1,5 +1,11 @@
 import { NotionPropertyRequest } from 'utils/notion';
 import { propertyBuilders } from "utils/parsing";
+import { schemaFromFieldMappings, type DatabaseSchema } from "utils/schema";
+import { responseSchemaFromFieldMappings } from "utils/response-schema";
+import { PROVENANCE_SCHEMA } from "utils/provenance";
+import { REFRESH_SCHEMA } from "utils/refresh";
+import type { AIConfig } from "utils/ai-providers";
+import type { BodySection } from "utils/page-body";
 
 export interface TravelPlace {
   stayLength: string;
@@ -30,4 +36,31 @@ export const FIELD_MAPPINGS: Array<
   ["Typical activities", "activities", propertyBuilders.multiSelect],
   ["Flights from", "flights", propertyBuilders.multiSelect],
   ["Transport information", "transportInfo", propertyBuilders.richText],
-];
\ No newline at end of file
+];
+
+// Also written to the page body, where longer transport notes are easier to read
+export const BODY_SECTIONS: BodySection<TravelPlace>[] = [
+  ["Transport information", "transportInfo", "🚆 Getting there"],
+];
+
+export const AI_CONFIG: AIConfig = {
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+};
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  Name: { type: "title" },
+  ...schemaFromFieldMappings(FIELD_MAPPINGS),
+  "Best season": {
+    type: "select",
+    options: ["Spring", "Summer", "Autumn", "Winter", "Year-round"],
+  },
+  ...PROVENANCE_SCHEMA,
+  ...REFRESH_SCHEMA,
+};
+
+export const RESPONSE_SCHEMA = responseSchemaFromFieldMappings<TravelPlace>(
+  "places",
+  FIELD_MAPPINGS,
+  DATABASE_SCHEMA
+);
@@ -1,21 +1,30 @@
-import { readFile } from "node:fs/promises";
 import { fileURLToPath } from "node:url";
-import { dirname, join } from "node:path";
+import { dirname } from "node:path";
 // Utils
 import {
   createNotionClient,
-  getAllPages,
   extractTitle,
   hasEmptyProperties,
   buildPropertyUpdates,
   updatePage,
 } from "utils/notion";
-import { createAIClient, batchAnnotate, type AIClient } from "utils/ai";
+import { batchAnnotate, type PromptItem } from "utils/ai";
+import { createAIClient, describeAIClient, type AIClient } from "utils/ai-providers";
 import { logger } from "utils/logger";
+import { writeBodySections } from "utils/page-body";
+import { renderPrompt } from "utils/prompt";
+import { createRefreshPlan } from "utils/refresh";
+import { createReviewQueue } from "utils/review-queue";
+import { validateSchema } from "utils/schema";
+import { syncPages } from "utils/sync-cursor";
 // Config
 import {
   REQUIRED_PROPERTIES,
   FIELD_MAPPINGS,
+  BODY_SECTIONS,
+  AI_CONFIG,
+  RESPONSE_SCHEMA,
+  DATABASE_SCHEMA,
 } from "./config";
 // Types
 import type { TravelPlace } from "./config";
@@ -36,81 +45,74 @@ if (!DATABASE_ID) {
 }
 
 const notion = createNotionClient(NOTION_TOKEN);
-const ai: AIClient = await createAIClient();
-
-const buildPrompt = async (places: string[]): Promise<string> => {
-  const promptTemplate = await readFile(
-    join(__dirname, "prompt.md"),
-    "utf-8"
-  );
-  const placesList = places.map((p, i) => `${i + 1}. ${p}`).join("\n");
-  return promptTemplate.replace("{{PLACES_LIST}}", placesList);
-};
-
-interface TravelPlacesResponse {
-  places: TravelPlace[];
-}
-
-const isValidTravelPlacesResponse = (obj: unknown): obj is TravelPlacesResponse => {
-  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) return false;
-  
-  const response = obj as Record<string, JsonValue>;
-  if (!Array.isArray(response.places)) return false;
-  
-  return response.places.every((place) => {
-    if (typeof place !== "object" || place === null || Array.isArray(place)) return false;
-    const p = place as Record<string, JsonValue>;
-    return (
-      typeof p.stayLength === "string" &&
-      typeof p.bestSeason === "string" &&
-      typeof p.knownFor === "string" &&
-      typeof p.activities === "string" &&
-      typeof p.flights === "string" &&
-      typeof p.transportInfo === "string"
-    );
-  });
-};
-
-type JsonValue = string | number | boolean | null | JsonObject | JsonArray;
-type JsonObject = { [key: string]: JsonValue };
-type JsonArray = JsonValue[];
+const ai: AIClient = await createAIClient("populate-travel-database", AI_CONFIG);
 
-const parseResponse = (response: unknown): TravelPlace[] => {
-  const json = response as JsonValue;
-  if (!isValidTravelPlacesResponse(json)) {
-    throw new Error("Response missing 'places' array or invalid structure");
-  }
-  return json.places;
+const buildPrompt = async (places: PromptItem[]): Promise<string> => {
+  const placesList = places.map(({ key, name }) => `[${key}] ${name}`).join("\n");
+  return renderPrompt({ dir: __dirname, workflow: "populate-travel-database" }, { PLACES_LIST: placesList });
 };
 
 const run = async () => {
-  logger.info("Fetching all pages from database...");
-  const pages = await getAllPages(DATABASE_ID, NOTION_TOKEN);
+  await validateSchema(NOTION_TOKEN, DATABASE_ID, DATABASE_SCHEMA, "travel");
+
+  const review = await createReviewQueue<TravelPlace>({
+    notion,
+    token: NOTION_TOKEN,
+    workflow: "populate-travel-database",
+    fieldMappings: FIELD_MAPPINGS,
+    source: describeAIClient(ai),
+  });
+  await review?.applyReviewed(async (pageId, updates, values) => {
+    await updatePage(notion, pageId, updates);
+    await writeBodySections(notion, pageId, values, Object.keys(updates), BODY_SECTIONS);
+  });
+
+  logger.info("Fetching pages from database...");
+  const sync = await syncPages(DATABASE_ID, NOTION_TOKEN);
+  const pages = sync.pages;
 
   logger.info("Pages retrieved", { count: pages.length });
 
-  const eligible = pages.filter((page) =>
-    hasEmptyProperties(page, [...REQUIRED_PROPERTIES])
-  );
-  logger.info("Found place items with empty fields", { count: eligible.length });
+  // Flagged or stale fields this tool filled are re-annotated alongside empty ones
+  const refresh = createRefreshPlan(FIELD_MAPPINGS.map(([property]) => property));
+  const eligible = pages.filter((page) => {
+    const notHeld = (property: string) => !review?.isHeld(page.id, property);
+    return hasEmptyProperties(page, REQUIRED_PROPERTIES.filter(notHeld)) || refresh.fieldsToRefresh(page).some(notHeld);
+  });
+  logger.info("Found place items with empty or refreshable fields", { count: eligible.length });
 
   if (!eligible.length) {
     logger.info("No items need annotation. All done!");
+    await refresh.clearFlags(notion, pages, new Set());
+    sync.commit();
     return;
   }
 
-  await batchAnnotate<TravelPlace>(ai, {
+  const report = await batchAnnotate<TravelPlace>(ai, {
     pages: eligible,
     extractName: extractTitle,
     buildPrompt,
-    parseResponse,
+    responseSchema: RESPONSE_SCHEMA,
     buildUpdates: (page, data) =>
-      buildPropertyUpdates(page, data, FIELD_MAPPINGS),
-    updatePage: async (page, updates) =>
-      updatePage(notion, page.id, updates),
+      buildPropertyUpdates(page, data, FIELD_MAPPINGS, {
+        source: describeAIClient(ai),
+        overwrite: refresh.fieldsToRefresh(page),
+      }),
+    updatePage: async (page, updates, data) => {
+      await updatePage(notion, page.id, updates);
+      await writeBodySections(notion, page.id, data, Object.keys(updates), BODY_SECTIONS);
+    },
+    review,
     itemType: "place",
   });
 
+  // Only written or staged pages lose their flag; the rest are retried
+  await refresh.clearFlags(notion, pages, new Set([...report.updated, ...report.staged]));
+
+  // Leave the cursor alone so failed or deferred places are picked up again next run
+  if (report.failed.length > 0 || report.deferred.length > 0) return;
+
+  sync.commit();
   logger.success("Place annotation complete");
 };
 
@@ -1,5 +1,11 @@
 import { NotionPropertyRequest } from 'utils/notion';
 import { propertyBuilders } from "utils/parsing";
+import { schemaFromFieldMappings, type DatabaseSchema } from "utils/schema";
+import { responseSchemaFromFieldMappings } from "utils/response-schema";
+import { PROVENANCE_SCHEMA } from "utils/provenance";
+import { REFRESH_SCHEMA } from "utils/refresh";
+import type { AIConfig } from "utils/ai-providers";
+import type { BodySection } from "utils/page-body";
 
 export interface Walk {
   distance: number;
@@ -31,4 +37,33 @@ export const FIELD_MAPPINGS: Array<
   ["Routes", "routes", propertyBuilders.richText],
   ["Terrain", "terrain", propertyBuilders.multiSelect],
   ["Pubs", "pubs", propertyBuilders.richText],
-];
\ No newline at end of file
+];
+
+// Also written to the page body, where route descriptions are easier to read
+export const BODY_SECTIONS: BodySection<Walk>[] = [
+  ["Routes", "routes", "🥾 Routes"],
+];
+
+export const AI_CONFIG: AIConfig = {
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+};
+
+export const DATABASE_SCHEMA: DatabaseSchema = {
+  Name: { type: "title" },
+  ...schemaFromFieldMappings(FIELD_MAPPINGS),
+  "Transport options": { type: "multi_select", options: ["Train", "Car", "Bus"] },
+  Type: { type: "multi_select", options: ["Day trip", "Overnight"] },
+  Terrain: {
+    type: "multi_select",
+    options: ["Seaside", "Lake", "Moorland", "Mountains", "Forest", "Hills", "Valley", "Countryside"],
+  },
+  ...PROVENANCE_SCHEMA,
+  ...REFRESH_SCHEMA,
+};
+
+export const RESPONSE_SCHEMA = responseSchemaFromFieldMappings<Walk>(
+  "walks",
+  FIELD_MAPPINGS,
+  DATABASE_SCHEMA
+);
@@ -1,21 +1,30 @@
-import { readFile } from "node:fs/promises";
 import { fileURLToPath } from "node:url";
-import { dirname, join } from "node:path";
+import { dirname } from "node:path";
 // Utils
 import {
   createNotionClient,
-  getAllPages,
   extractTitle,
   hasEmptyProperties,
   buildPropertyUpdates,
   updatePage,
 } from "utils/notion";
 import { logger } from 'utils/logger';
-import { createAIClient, batchAnnotate } from "utils/ai";
+import { batchAnnotate, type PromptItem } from "utils/ai";
+import { createAIClient, describeAIClient } from "utils/ai-providers";
+import { writeBodySections } from "utils/page-body";
+import { renderPrompt } from "utils/prompt";
+import { createRefreshPlan } from "utils/refresh";
+import { createReviewQueue } from "utils/review-queue";
+import { validateSchema } from "utils/schema";
+import { syncPages } from "utils/sync-cursor";
 // Config
 import {
   REQUIRED_PROPERTIES,
   FIELD_MAPPINGS,
+  BODY_SECTIONS,
+  AI_CONFIG,
+  RESPONSE_SCHEMA,
+  DATABASE_SCHEMA,
 } from "./config";
 // Types
 import type { Walk } from "./config";
@@ -42,79 +51,77 @@ if (!HOME_LOCATION) {
 }
 
 const notion = createNotionClient(NOTION_TOKEN);
-const ai = await createAIClient();
+const ai = await createAIClient("populate-walks-database", AI_CONFIG);
 
-const buildPrompt = async (walks: string[]): Promise<string> => {
-  const promptTemplate = await readFile(
-    join(__dirname, "prompt.md"),
-    "utf-8"
+const buildPrompt = async (walks: PromptItem[]): Promise<string> => {
+  const walksList = walks.map(({ key, name }) => `[${key}] ${name}`).join("\n");
+  return renderPrompt(
+    { dir: __dirname, workflow: "populate-walks-database" },
+    { HOME_LOCATION, WALKS_LIST: walksList }
   );
-  const walksList = walks.map((w, i) => `${i + 1}. ${w}`).join("\n");
-  return promptTemplate
-    .replaceAll("{{HOME_LOCATION}}", HOME_LOCATION)
-    .replaceAll("{{WALKS_LIST}}", walksList);
 };
 
-interface WalksResponse {
-  walks: Walk[];
-}
-
-const isValidWalksResponse = (obj: unknown): obj is WalksResponse => {
-  if (typeof obj !== "object" || obj === null) return false;
-  
-  const response = obj as Record<string, unknown>;
-  if (!Array.isArray(response.walks)) return false;
-  
-  return response.walks.every((walk) => {
-    return (
-      typeof walk === "object" &&
-      walk !== null &&
-      typeof (walk as Record<string, unknown>).distance === "number" &&
-      typeof (walk as Record<string, unknown>).transport === "string" &&
-      typeof (walk as Record<string, unknown>).type === "string" &&
-      typeof (walk as Record<string, unknown>).parking === "string" &&
-      typeof (walk as Record<string, unknown>).routes === "string" &&
-      typeof (walk as Record<string, unknown>).terrain === "string" &&
-      typeof (walk as Record<string, unknown>).pubs === "string"
-    );
+const run = async () => {
+  await validateSchema(NOTION_TOKEN, DATABASE_ID, DATABASE_SCHEMA, "walks");
+
+  const review = await createReviewQueue<Walk>({
+    notion,
+    token: NOTION_TOKEN,
+    workflow: "populate-walks-database",
+    fieldMappings: FIELD_MAPPINGS,
+    source: describeAIClient(ai),
+  });
+  await review?.applyReviewed(async (pageId, updates, values) => {
+    await updatePage(notion, pageId, updates);
+    await writeBodySections(notion, pageId, values, Object.keys(updates), BODY_SECTIONS);
   });
-};
-
-const parseResponse = (json: unknown): Walk[] => {
-  if (!isValidWalksResponse(json)) {
-    throw new Error("Response missing 'walks' array or invalid structure");
-  }
-  return json.walks;
-};
 
-const run = async () => {
-  logger.info("Fetching all pages from database...");
-  const pages = await getAllPages(DATABASE_ID, NOTION_TOKEN);
+  logger.info("Fetching pages from database...");
+  const sync = await syncPages(DATABASE_ID, NOTION_TOKEN);
+  const pages = sync.pages;
 
   logger.info(`Total pages retrieved: ${pages.length}`);
 
-  const eligible = pages.filter((page) =>
-    hasEmptyProperties(page, [...REQUIRED_PROPERTIES])
-  );
-  logger.info(`Found ${eligible.length} walk items with empty fields`);
+  // Flagged or stale fields this tool filled are re-annotated alongside empty ones
+  const refresh = createRefreshPlan(FIELD_MAPPINGS.map(([property]) => property));
+  const eligible = pages.filter((page) => {
+    const notHeld = (property: string) => !review?.isHeld(page.id, property);
+    return hasEmptyProperties(page, REQUIRED_PROPERTIES.filter(notHeld)) || refresh.fieldsToRefresh(page).some(notHeld);
+  });
+  logger.info(`Found ${eligible.length} walk items with empty or refreshable fields`);
 
   if (!eligible.length) {
     logger.info("No items need annotation. All done!");
+    await refresh.clearFlags(notion, pages, new Set());
+    sync.commit();
     return;
   }
 
-  await batchAnnotate<Walk>(ai, {
+  const report = await batchAnnotate<Walk>(ai, {
     pages: eligible,
     extractName: extractTitle,
     buildPrompt,
-    parseResponse,
+    responseSchema: RESPONSE_SCHEMA,
     buildUpdates: (page, data) =>
-      buildPropertyUpdates(page, data, FIELD_MAPPINGS),
-    updatePage: async (page, updates) =>
-      updatePage(notion, page.id, updates),
+      buildPropertyUpdates(page, data, FIELD_MAPPINGS, {
+        source: describeAIClient(ai),
+        overwrite: refresh.fieldsToRefresh(page),
+      }),
+    updatePage: async (page, updates, data) => {
+      await updatePage(notion, page.id, updates);
+      await writeBodySections(notion, page.id, data, Object.keys(updates), BODY_SECTIONS);
+    },
+    review,
     itemType: "walk",
   });
 
+  // Only written or staged pages lose their flag; the rest are retried
+  await refresh.clearFlags(notion, pages, new Set([...report.updated, ...report.staged]));
+
+  // Leave the cursor alone so failed or deferred walks are picked up again next run
+  if (report.failed.length > 0 || report.deferred.length > 0) return;
+
+  sync.commit();
   logger.info("\n✓ Walk annotation complete");
   logger.info("💡 Sort by 'Distance from home' to see closest walks first.");
 };
@@ -0,0 +1,137 @@
+import 'dotenv/config';
+import { existsSync } from "node:fs";
+// Utils
+import { logger } from "utils/logger";
+import { getAllPages } from "utils/notion";
+import {
+  createSnapshot,
+  diffSnapshots,
+  listSnapshots,
+  loadSnapshot,
+  parseWhere,
+  querySnapshot,
+  readsFromSnapshot,
+  saveSnapshot,
+} from "utils/snapshot";
+// Config
+import { SCHEMA_TARGETS } from "../ensure-schema/config";
+// Types
+import type { Snapshot, SnapshotValue } from "utils/snapshot";
+
+const USAGE = `Usage:
+  npx tsx workflows/snapshot/index.ts take [label ...]
+  npx tsx workflows/snapshot/index.ts query <label|file> [--where "<property> <operator> <value>"]... [--fields a,b]
+  npx tsx workflows/snapshot/index.ts diff <label> | <before-file> <after-file>`;
+
+const [command, ...args] = process.argv.slice(2);
+
+// One entry per database, even when several workflows share it
+const TARGETS = SCHEMA_TARGETS.filter(
+  (target, index) =>
+    SCHEMA_TARGETS.findIndex((other) => other.databaseEnv === target.databaseEnv) === index
+);
+
+const formatValue = (value: SnapshotValue | undefined): string => {
+  if (value === null || value === undefined) return "—";
+  if (Array.isArray(value)) return value.join(", ") || "—";
+  if (typeof value === "object") {
+    return "start" in value ? value.start : (value.name ?? `${value.lat}, ${value.lon}`);
+  }
+  return String(value);
+};
+
+const resolveSnapshot = (labelOrPath: string, offset = 1): Snapshot => {
+  if (existsSync(labelOrPath)) return loadSnapshot(labelOrPath);
+
+  const snapshots = listSnapshots(labelOrPath);
+  const path = snapshots.at(-offset);
+  if (!path) {
+    throw new Error(`No snapshot found for "${labelOrPath}"`);
+  }
+  return loadSnapshot(path);
+};
+
+const take = async (labels: string[]) => {
+  if (readsFromSnapshot()) {
+    throw new Error("NOTION_READ_SNAPSHOT must be unset when taking a snapshot");
+  }
+
+  const targets = TARGETS.filter((target) => !labels.length || labels.includes(target.label));
+  let taken = 0;
+
+  for (const target of targets) {
+    const databaseId = process.env[target.databaseEnv];
+    const token = process.env[target.tokenEnv];
+
+    if (!databaseId || !token) {
+      logger.skip(`Skipping ${target.label} - ${!databaseId ? target.databaseEnv : target.tokenEnv} is not defined`);
+      continue;
+    }
+
+    const pages = await getAllPages(databaseId, token);
+    const path = saveSnapshot(createSnapshot(target.label, databaseId, pages));
+    logger.success(`Saved ${target.label} snapshot`, { pages: pages.length, path });
+    taken++;
+  }
+
+  if (taken === 0) {
+    throw new Error(`No databases configured. Known labels: ${TARGETS.map((t) => t.label).join(", ")}`);
+  }
+};
+
+const query = (labelOrPath: string, options: string[]) => {
+  const predicates = [];
+  let fields: string[] = [];
+
+  for (let i = 0; i < options.length; i++) {
+    if (options[i] === "--where") predicates.push(parseWhere(options[++i] ?? ""));
+    else if (options[i] === "--fields") fields = (options[++i] ?? "").split(",").map((f) => f.trim());
+    else throw new Error(`Unknown option: ${options[i]}`);
+  }
+
+  const snapshot = resolveSnapshot(labelOrPath);
+  const pages = querySnapshot(snapshot, predicates);
+
+  for (const page of pages) {
+    const extra = fields.map((field) => `${field}: ${formatValue(page.values[field])}`).join(" | ");
+    console.log(`- ${page.title || "Untitled"}${extra ? `  (${extra})` : ""}`);
+  }
+  logger.info(`${pages.length} of ${Object.keys(snapshot.pages).length} page(s) matched`, {
+    snapshot: snapshot.label,
+    takenAt: snapshot.takenAt,
+  });
+};
+
+const diff = (first: string, second?: string) => {
+  const before = second ? resolveSnapshot(first) : resolveSnapshot(first, 2);
+  const after = second ? resolveSnapshot(second) : resolveSnapshot(first);
+  const { added, removed, changed } = diffSnapshots(before, after);
+
+  console.log(`${before.label}: ${before.takenAt} → ${after.takenAt}`);
+  for (const page of added) console.log(`+ ${page.title || page.id}`);
+  for (const page of removed) console.log(`- ${page.title || page.id}`);
+  for (const { page, changes } of changed) {
+    console.log(`~ ${page.title || page.id}`);
+    for (const change of changes) {
+      console.log(`    ${change.property}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+    }
+  }
+
+  logger.info("Snapshot diff", { added: added.length, removed: removed.length, changed: changed.length });
+};
+
+const run = async () => {
+  if (command === "take") return take(args);
+  if (command === "query" && args[0]) return query(args[0], args.slice(1));
+  if (command === "diff" && args[0]) return diff(args[0], args[1]);
+
+  logger.error(USAGE);
+  process.exit(1);
+};
+
+try {
+  await run();
+} catch (err) {
+  logger.error("Unexpected error", err instanceof Error ? err : undefined);
+  process.exit(1);
+}
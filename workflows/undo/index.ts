@@ -0,0 +1,180 @@
+import 'dotenv/config';
+// Utils
+import { createNotionClient } from "utils/notion";
+import { appendJournalEntry, getJournalPath, readJournal, RUN_ID } from "utils/journal";
+import { logger } from "utils/logger";
+// Types
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import type { ArchivedPageEntry, DeletedBlockEntry } from "utils/journal";
+
+type JsonRecord = Record<string, unknown>;
+
+const NOTION_TOKEN = process.env.NOTION_TOKEN;
+const TARGET_RUN_ID = process.argv[2];
+const FORCE = process.argv.includes("--force");
+
+if (!NOTION_TOKEN) {
+  logger.error("NOTION_TOKEN is not defined");
+  process.exit(1);
+}
+
+if (!TARGET_RUN_ID) {
+  logger.error("Usage: npx tsx workflows/undo/index.ts <runId> [--force]");
+  process.exit(1);
+}
+
+const notion = createNotionClient(NOTION_TOKEN);
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Response rich text carries read-only fields the API rejects on create
+const toRichTextRequest = (items: unknown): JsonRecord[] =>
+  Array.isArray(items)
+    ? items.filter(isRecord).map((item) =>
+        item.type === "text" && isRecord(item.text)
+          ? {
+              type: "text",
+              text: { content: item.text.content, link: item.text.link ?? null },
+              annotations: item.annotations,
+            }
+          : { type: item.type, [String(item.type)]: item[String(item.type)], annotations: item.annotations }
+      )
+    : [];
+
+const toBlockRequest = (block: JsonRecord, children: JsonRecord[] = []): BlockObjectRequest => {
+  const type = String(block.type);
+  const content = isRecord(block[type]) ? { ...(block[type] as JsonRecord) } : {};
+
+  if ("rich_text" in content) {
+    content.rich_text = toRichTextRequest(content.rich_text);
+  }
+  if (children.length) {
+    content.children = children.map((child) =>
+      toBlockRequest(child, Array.isArray(child.children) ? child.children.filter(isRecord) : [])
+    );
+  }
+
+  return { object: "block", type, [type]: content } as unknown as BlockObjectRequest;
+};
+
+const blockExists = async (blockId: string): Promise<boolean> => {
+  try {
+    const block = await notion.blocks.retrieve({ block_id: blockId });
+    return !("archived" in block && block.archived) && !("in_trash" in block && block.in_trash);
+  } catch {
+    return false;
+  }
+};
+
+const restorePage = async (entry: ArchivedPageEntry): Promise<void> => {
+  await notion.pages.update({ page_id: entry.pageId, archived: false });
+  logger.success("Restored page", { title: entry.title, pageId: entry.pageId });
+};
+
+// Deleted blocks get new ids when re-created, so later entries that point at
+// an earlier restored block are redirected through `restoredIds`. `follows` is
+// the restored block this one has to go straight after, if any.
+const restoreBlock = async (
+  entry: DeletedBlockEntry,
+  restoredIds: Map<string, string>,
+  follows?: string
+): Promise<void> => {
+  const resolveAnchor = async (blockId: string | null): Promise<string | undefined> => {
+    if (!blockId) return undefined;
+    const restored = restoredIds.get(blockId);
+    if (restored) return restored;
+    return (await blockExists(blockId)) ? blockId : undefined;
+  };
+
+  const after =
+    follows ??
+    (await resolveAnchor(entry.previousSiblingId)) ??
+    (await resolveAnchor(entry.headingId));
+
+  if (!after && (entry.previousSiblingId || entry.headingId)) {
+    logger.alert("Original position is gone, appending block to the end of its parent", {
+      blockId: entry.blockId,
+      parentId: entry.parentId,
+    });
+  }
+
+  const response = await notion.blocks.children.append({
+    block_id: restoredIds.get(entry.parentId) ?? entry.parentId,
+    children: [toBlockRequest(entry.block, entry.children)],
+    ...(after && { after }),
+  });
+
+  const created = response.results[0];
+  if (created) restoredIds.set(entry.blockId, created.id);
+  logger.success("Restored block", { type: entry.block.type, blockId: entry.blockId });
+};
+
+const run = async () => {
+  const journal = readJournal();
+  const entries = journal.filter(
+    (entry): entry is ArchivedPageEntry | DeletedBlockEntry =>
+      entry.runId === TARGET_RUN_ID && entry.kind !== "undo"
+  );
+
+  if (!entries.length) {
+    logger.error(`No journal entries found for run ${TARGET_RUN_ID}`, { path: getJournalPath() });
+    process.exit(1);
+  }
+
+  const alreadyUndone = journal.some(
+    (entry) => entry.kind === "undo" && entry.undoneRunId === TARGET_RUN_ID
+  );
+  if (alreadyUndone && !FORCE) {
+    logger.error(`Run ${TARGET_RUN_ID} has already been undone. Pass --force to restore again.`);
+    process.exit(1);
+  }
+
+  logger.info(`Undoing ${entries.length} change(s) from run ${TARGET_RUN_ID}`);
+
+  const restoredIds = new Map<string, string>();
+  let previous: DeletedBlockEntry | undefined;
+  let failed = 0;
+
+  for (const entry of entries) {
+    try {
+      if (entry.kind === "archive_page") {
+        await restorePage(entry);
+      } else {
+        // Adjacent blocks deleted one after another all recorded the same
+        // surviving sibling, so each goes after the one restored before it
+        // rather than straight after that sibling, ahead of it
+        const follows =
+          previous?.parentId === entry.parentId && previous.previousSiblingId === entry.previousSiblingId
+            ? restoredIds.get(previous.blockId)
+            : undefined;
+        previous = entry;
+        await restoreBlock(entry, restoredIds, follows);
+      }
+    } catch (error) {
+      failed++;
+      logger.error("Failed to restore entry", error instanceof Error ? error : { entry });
+    }
+  }
+
+  if (failed > 0) {
+    logger.warn("Undo finished with failures", { restored: entries.length - failed, failed });
+    process.exit(1);
+  }
+
+  appendJournalEntry({
+    runId: RUN_ID,
+    timestamp: new Date().toISOString(),
+    kind: "undo",
+    undoneRunId: TARGET_RUN_ID,
+  });
+
+  logger.success("Undo complete", { restored: entries.length });
+};
+
+try {
+  await run();
+} catch (err) {
+  logger.error("Unexpected error", err instanceof Error ? err : undefined);
+  process.exit(1);
+}
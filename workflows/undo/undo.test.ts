@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+// Types
+import type { FakeBlockSeed, FakeNotionSeed } from "utils/notion-fake";
+
+const todo = (text: string, checked: boolean): FakeBlockSeed => ({
+  type: "to_do",
+  to_do: { rich_text: [{ text: { content: text } }], checked },
+});
+
+const paragraph = (text: string): FakeBlockSeed => ({
+  type: "paragraph",
+  paragraph: { rich_text: [{ text: { content: text } }] },
+});
+
+const blockText = (block: FakeBlockSeed): string => {
+  const content = block[block.type] as { rich_text: Array<{ plain_text: string }> };
+  return content.rich_text.map((item) => item.plain_text).join("");
+};
+
+// Each workflow runs in its own process against the fake backend, handing the
+// final state on to the next one
+const runWorkflow = (dir: string, workflow: string, seed: string, args: string[] = []): string => {
+  const output = join(dir, `${workflow}.json`);
+  execFileSync(process.execPath, ["--import", "tsx", `workflows/${workflow}/index.ts`, ...args], {
+    env: {
+      ...process.env,
+      NOTION_TOKEN: "test",
+      NOTION_PAGE_ID: "list",
+      NOTION_FAKE_DATA: seed,
+      NOTION_FAKE_OUTPUT: output,
+      NOTION_JOURNAL: "on",
+      NOTION_JOURNAL_PATH: join(dir, "journal.jsonl"),
+      RUN_ID: `${workflow}-run`,
+    },
+    stdio: "pipe",
+  });
+  return output;
+};
+
+test("undo restores blocks deleted by cleanup in their original order", (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "undo-test-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const seed: FakeNotionSeed = {
+    pages: [{ id: "list", parent: { page_id: "root" } }],
+    blocks: {
+      list: [
+        paragraph("X"),
+        todo("Apple", true),
+        todo("Banana", true),
+        todo("Cherry", false),
+        todo("Dates", true),
+        paragraph("Y"),
+      ],
+    },
+  };
+  const seedPath = join(dir, "seed.json");
+  writeFileSync(seedPath, JSON.stringify(seed));
+
+  const cleaned = runWorkflow(dir, "cleanup-shopping", seedPath);
+  const afterCleanup = JSON.parse(readFileSync(cleaned, "utf-8")) as FakeNotionSeed;
+  assert.deepEqual(afterCleanup.blocks?.list.map(blockText), ["X", "Cherry", "Y"]);
+
+  const restored = runWorkflow(dir, "undo", cleaned, ["cleanup-shopping-run"]);
+  const afterUndo = JSON.parse(readFileSync(restored, "utf-8")) as FakeNotionSeed;
+  assert.deepEqual(afterUndo.blocks?.list.map(blockText), ["X", "Apple", "Banana", "Cherry", "Dates", "Y"]);
+});